@@ -7,6 +7,10 @@ import { Layout } from "@/components/Layout";
 import Dashboard from "@/pages/dashboard";
 import AddSubscription from "@/pages/add-subscription";
 import CancellationFlow from "@/pages/cancellation-flow";
+import Transactions from "@/pages/transactions";
+import Analytics from "@/pages/analytics";
+import Settings from "@/pages/settings";
+import SubscriptionDetail from "@/pages/subscription-detail";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import { AuthProvider, ProtectedRoute } from "@/lib/auth";
@@ -31,6 +35,34 @@ function Router() {
           </Layout>
         )} />
       </Route>
+      <Route path="/transactions">
+        <ProtectedRoute component={() => (
+          <Layout>
+            <Transactions />
+          </Layout>
+        )} />
+      </Route>
+      <Route path="/analytics">
+        <ProtectedRoute component={() => (
+          <Layout>
+            <Analytics />
+          </Layout>
+        )} />
+      </Route>
+      <Route path="/settings">
+        <ProtectedRoute component={() => (
+          <Layout>
+            <Settings />
+          </Layout>
+        )} />
+      </Route>
+      <Route path="/subscriptions/:id">
+        <ProtectedRoute component={() => (
+          <Layout>
+            <SubscriptionDetail />
+          </Layout>
+        )} />
+      </Route>
       <Route path="/cancel/:id">
          <ProtectedRoute component={() => (
            <Layout>
@@ -0,0 +1,117 @@
+import { useState, useEffect } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { useAuth } from "@/lib/auth";
+import { api } from "@/lib/api";
+import { generateICSFile } from "@/lib/generators";
+import type { CalendarFeed, Subscription } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Calendar, Download, Copy, Link2, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+export function CalendarDialog({ subscriptions }: { subscriptions: Subscription[] }) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    api.getCalendarFeed()
+      .then(setFeed)
+      .catch(e => console.error("Fetch calendar feed error:", e));
+  }, [open, user]);
+
+  const feedUrl = feed ? `${window.location.origin}${feed.url}` : "";
+
+  const createFeed = async () => {
+    setBusy(true);
+    try {
+      setFeed(await api.createCalendarFeed());
+      toast({ title: feed ? "New Feed URL Created" : "Feed URL Created", description: feed ? "The old URL no longer works." : undefined });
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeFeed = async () => {
+    setBusy(true);
+    try {
+      await api.revokeCalendarFeed();
+      setFeed(null);
+      toast({ title: "Feed URL Revoked", description: "Calendars subscribed to it will stop updating." });
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Copied", duration: 1500 });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Calendar className="mr-2 h-4 w-4" /> Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Calendar</DialogTitle>
+          <DialogDescription>
+            Payment dates and the last day to cancel, with reminders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {user && (
+            <div className="space-y-3">
+              <Label className="flex items-center gap-2"><Link2 className="h-4 w-4" /> Subscribe (stays up to date)</Label>
+              {feed ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input readOnly value={feedUrl} className="font-mono text-xs" onFocus={e => e.target.select()} />
+                    <Button variant="outline" size="icon" onClick={copyUrl} aria-label="Copy URL">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Add this URL as a network calendar in Thunderbird, Apple Calendar or Google Calendar. Anyone with the URL can read it.
+                    {feed.lastAccessedAt && <> Last fetched {formatDistanceToNow(parseISO(feed.lastAccessedAt), { addSuffix: true })}.</>}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={createFeed} disabled={busy}>
+                      <RefreshCw className="mr-2 h-4 w-4" /> New URL
+                    </Button>
+                    <Button variant="outline" size="sm" className="text-red-500 hover:text-red-600" onClick={revokeFeed} disabled={busy}>
+                      <Trash2 className="mr-2 h-4 w-4" /> Revoke
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <Button size="sm" onClick={createFeed} disabled={busy}>
+                  <Link2 className="mr-2 h-4 w-4" /> Create Feed URL
+                </Button>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <Label className="flex items-center gap-2"><Download className="h-4 w-4" /> One-time export</Label>
+            <Button variant="outline" size="sm" onClick={() => generateICSFile(subscriptions)}>
+              <Download className="mr-2 h-4 w-4" /> Download .ics
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
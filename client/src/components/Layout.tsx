@@ -1,9 +1,10 @@
 import { Link, useLocation } from "wouter";
-import { LayoutDashboard, Plus, Settings, ShieldCheck, Menu, LogOut, User } from "lucide-react";
+import { LayoutDashboard, Plus, Settings, ShieldCheck, Menu, LogOut, User, Receipt, BarChart3 } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/lib/auth";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { NotificationBell } from "@/components/NotificationBell";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 
 export function Layout({ children }: { children: React.ReactNode }) {
@@ -13,7 +14,9 @@ export function Layout({ children }: { children: React.ReactNode }) {
   const navItems = [
     { href: "/", label: "Dashboard", icon: LayoutDashboard },
     { href: "/add", label: "Add Subscription", icon: Plus },
-    // { href: "/settings", label: "Settings", icon: Settings }, // Future
+    { href: "/transactions", label: "Transactions", icon: Receipt },
+    { href: "/analytics", label: "Analytics", icon: BarChart3 },
+    { href: "/settings", label: "Settings", icon: Settings },
   ];
 
   const isActive = (path: string) => location === path;
@@ -32,6 +35,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
           <span className="font-heading font-bold text-lg tracking-tight">SubControl</span>
         </div>
         <div className="flex items-center gap-2">
+           <NotificationBell />
            <DropdownMenu>
             <DropdownMenuTrigger asChild>
                <Avatar className="h-8 w-8 cursor-pointer">
@@ -94,10 +98,11 @@ export function Layout({ children }: { children: React.ReactNode }) {
            <Avatar className="h-10 w-10">
               <AvatarFallback className="bg-primary/20 text-primary font-medium">{initials}</AvatarFallback>
             </Avatar>
-            <div className="overflow-hidden">
+            <div className="overflow-hidden flex-1">
               <p className="text-sm font-medium truncate">{user?.name}</p>
               <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
             </div>
+            <NotificationBell />
         </div>
 
         <nav className="flex flex-col gap-2">
@@ -0,0 +1,62 @@
+import { Link } from "wouter";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNotifications } from "@/lib/notifications";
+
+export function NotificationBell() {
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 h-4 min-w-4 px-1 rounded-full bg-orange-500 text-[10px] font-medium text-white flex items-center justify-center">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <span className="font-medium text-sm">Reminders</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No reminders yet.</p>
+          ) : (
+            notifications.map(n => (
+              <div
+                key={n.id}
+                className={`px-4 py-3 border-b border-border last:border-0 text-sm ${n.readAt ? "text-muted-foreground" : ""}`}
+                onClick={() => !n.readAt && markRead(n.id)}
+              >
+                <div className="flex items-start gap-2">
+                  {!n.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-orange-500" />}
+                  <div className="space-y-1">
+                    <p className="font-medium">{n.title}</p>
+                    <p className="text-xs">{n.message}</p>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span>{formatDistanceToNow(parseISO(n.createdAt), { addSuffix: true })}</span>
+                      {n.subscriptionId && (
+                        <Link href={`/cancel/${n.subscriptionId}`} className="underline">Cancel now</Link>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { todayISO } from "@shared/billing-dates";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { PauseCircle } from "lucide-react";
+
+interface PauseDialogProps {
+  name: string;
+  onPause: (pauseStartDate: string, pauseEndDate: string | null) => Promise<void> | void;
+}
+
+export function PauseDialog({ name, onPause }: PauseDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [start, setStart] = useState(todayISO());
+  const [end, setEnd] = useState("");
+
+  const invalid = !start || (!!end && end <= start);
+
+  const handleConfirm = async () => {
+    await onPause(start, end || null);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <PauseCircle className="mr-2 h-4 w-4" /> Pause
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pause {name}</DialogTitle>
+          <DialogDescription>
+            No charges are expected while it is paused. Billing picks up again on the resume date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="pause-start">Paused From</Label>
+            <Input id="pause-start" type="date" value={start} onChange={e => setStart(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pause-end">Resumes On</Label>
+            <Input id="pause-end" type="date" value={end} min={start} onChange={e => setEnd(e.target.value)} />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">Leave the resume date empty to pause until you resume it yourself.</p>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={invalid}>Pause</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useSafebox } from "@/lib/safebox";
+import { api } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Download, Trash2, Upload, Lock } from "lucide-react";
+import type { Subscription } from "@/lib/types";
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  contract: "Contract",
+  confirmation: "Confirmation",
+  invoice: "Invoice",
+  other: "Other",
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function SafeboxCard({ subscription }: { subscription: Subscription }) {
+  const { enabled, documents, usage, uploading, upload, remove } = useSafebox(subscription);
+  const [type, setType] = useState("contract");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) await upload(file, type);
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Lock className="h-5 w-5" /> Safebox</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!enabled ? (
+          <p className="text-sm text-muted-foreground">Sign in to keep contracts and invoices with this subscription.</p>
+        ) : (
+          <>
+            {documents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No documents stored yet.</p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {documents.map(doc => (
+                  <li key={doc.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium truncate">{doc.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {format(parseISO(doc.date), "MMM d, yyyy")}
+                          {doc.amount != null && ` • ${doc.amount.toFixed(2)} ${doc.currency ?? subscription.currency}`}
+                          {doc.size != null && ` • ${formatSize(doc.size)}`}
+                        </div>
+                      </div>
+                      <Badge variant="outline">{DOCUMENT_TYPE_LABELS[doc.type] ?? doc.type}</Badge>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {doc.size != null && (
+                        <Button variant="ghost" size="icon" asChild>
+                          <a href={api.documentUrl(subscription.id, doc.id)} aria-label={`Download ${doc.name}`}>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => remove(doc.id)} aria-label={`Delete ${doc.name}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input
+                ref={fileInput}
+                type="file"
+                accept="application/pdf,image/png,image/jpeg,image/webp"
+                className="hidden"
+                onChange={handleFile}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={uploading}>
+                <Upload className="mr-2 h-4 w-4" /> {uploading ? "Uploading..." : "Upload"}
+              </Button>
+            </div>
+
+            {usage && (
+              <div className="space-y-1">
+                <Progress value={Math.min(100, (usage.used / usage.quota) * 100)} />
+                <p className="text-xs text-muted-foreground">{formatSize(usage.used)} of {formatSize(usage.quota)} used</p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
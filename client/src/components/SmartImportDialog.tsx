@@ -10,7 +10,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Upload, FileUp, Sparkles, CheckCircle2, AlertCircle, X, FileText, FileSpreadsheet } from "lucide-react";
+import { Upload, FileUp, Sparkles, CheckCircle2, AlertCircle, X, FileText, FileSpreadsheet, RefreshCw, Lock } from "lucide-react";
 import { useState, useCallback } from "react";
 import Papa from "papaparse";
 import { 
@@ -20,8 +20,17 @@ import {
   type ParsedTransaction,
   type SubscriptionCandidate
 } from "@/lib/importer";
-import { parsePDFFile } from "@/lib/pdf-extractor";
+import { parsePDFFile, performOCROnPDF, type PDFInvoiceMatch, type PDFTransaction } from "@/lib/pdf-extractor";
+import { detectStatementFileFormat, parseStatementFile, type StatementFileFormat } from "@/lib/statement-files";
+import { api } from "@/lib/api";
+import type { PriceChange } from "@/lib/types";
 import { toast } from "@/hooks/use-toast";
+import { describeInterval, subscriptionInterval } from "@shared/billing-dates";
+import { assignDirections } from "@shared/direction";
+
+// "monthly", "every 28 days", ...
+const candidateSchedule = (candidate: SubscriptionCandidate) =>
+  describeInterval(subscriptionInterval({ ...candidate.subscription, interval: candidate.interval }));
 
 export function SmartImportDialog() {
   const { user } = useAuth();
@@ -30,7 +39,7 @@ export function SmartImportDialog() {
   const [open, setOpen] = useState(false);
   const [step, setStep] = useState<'upload' | 'mapping' | 'preview' | 'results'>('upload');
   const [fileName, setFileName] = useState('');
-  const [fileType, setFileType] = useState<'csv' | 'pdf'>('csv');
+  const [fileType, setFileType] = useState<'csv' | 'pdf' | StatementFileFormat>('csv');
   const [csvData, setCsvData] = useState<any[]>([]);
   const [headers, setHeaders] = useState<string[]>([]);
   const [columnMapping, setColumnMapping] = useState<{
@@ -38,6 +47,8 @@ export function SmartImportDialog() {
     description?: string;
     amount?: string;
     currency?: string;
+    creditorId?: string;
+    mandateReference?: string;
   }>({});
   const [transactions, setTransactions] = useState<ParsedTransaction[]>([]);
   const [candidates, setCandidates] = useState<SubscriptionCandidate[]>([]);
@@ -46,6 +57,9 @@ export function SmartImportDialog() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isPDFScanned, setIsPDFScanned] = useState(false);
   const [pdfRawText, setPdfRawText] = useState('');
+  const [ocrProgress, setOcrProgress] = useState<{ page: number; pages: number } | null>(null);
+  // Invoice PDF that can be kept in the matched subscription's Safebox
+  const [invoiceOffer, setInvoiceOffer] = useState<{ file: File; match: PDFInvoiceMatch } | null>(null);
 
   const reset = () => {
     setStep('upload');
@@ -60,8 +74,83 @@ export function SmartImportDialog() {
     setIgnoredCandidates([]);
     setIsPDFScanned(false);
     setPdfRawText('');
+    setOcrProgress(null);
+    setInvoiceOffer(null);
+  };
+
+  const saveInvoice = async () => {
+    if (!invoiceOffer) return;
+    const { file, match } = invoiceOffer;
+    try {
+      await api.uploadDocument(match.subscriptionId, file, {
+        type: 'invoice',
+        date: match.date ?? undefined,
+        amount: match.amount ?? undefined,
+        currency: match.currency,
+      });
+      toast({ title: "Invoice saved", description: `Stored in the Safebox of ${match.subscriptionName}.` });
+      setInvoiceOffer(null);
+    } catch (error: any) {
+      toast({ title: "Could not save invoice", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const notifyPriceChanges = (changes: PriceChange[]) => {
+    if (changes.length === 0) return;
+    toast({
+      title: `${changes.length} price change${changes.length === 1 ? '' : 's'} detected`,
+      description: changes
+        .map(c => `${subscriptions.find(s => s.id === c.subscriptionId)?.name || 'Subscription'}: ${c.oldPrice.toFixed(2)} → ${c.newPrice.toFixed(2)} ${c.currency} (${c.date})`)
+        .join(', '),
+    });
   };
 
+  // Analyze on the server when logged in (stores the import for re-analysis), locally otherwise
+  const runAnalysis = useCallback(async (
+    parsed: ParsedTransaction[],
+    sourceName: string,
+    mapping?: typeof columnMapping
+  ) => {
+    try {
+      // Credits (salary, transfers, refunds) are kept but never become subscriptions
+      const directed = assignDirections(parsed);
+      let found: SubscriptionCandidate[];
+      if (user) {
+        const result = await api.analyzeImport(sourceName, directed, mapping);
+        found = result.candidates;
+        notifyPriceChanges(result.priceChanges);
+      } else {
+        await new Promise(r => setTimeout(r, 1000));
+        found = analyzeImportedTransactions(directed, subscriptions);
+      }
+      
+      setCandidates(found);
+      setSelectedCandidates(found.map((_, i) => i));
+      setIgnoredCandidates([]);
+      setStep('results');
+      
+      if (found.length === 0) {
+        toast({ 
+          title: "No subscriptions detected", 
+          description: `Analyzed ${parsed.length} transactions but couldn't find recurring patterns.`,
+        });
+      } else {
+        toast({
+          title: `Found ${found.length} potential subscriptions`,
+          description: `From ${parsed.length} transactions. Review and import.`,
+        });
+      }
+    } catch (error: any) {
+      toast({ 
+        title: "Analysis failed", 
+        description: error.message || "Could not analyze transactions.",
+        variant: "destructive" 
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  }, [user, subscriptions]);
+
   const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -71,29 +160,39 @@ export function SmartImportDialog() {
     
     // Determine file type
     const isPDF = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
-    setFileType(isPDF ? 'pdf' : 'csv');
+    const statementFormat = isPDF ? null : detectStatementFileFormat(file.name, await file.slice(0, 4096).text());
+    setFileType(isPDF ? 'pdf' : statementFormat ?? 'csv');
     
     if (isPDF) {
       // Handle PDF upload
       try {
-        const result = await parsePDFFile(file);
+        const parsedPDF = await parsePDFFile(file);
+        let result: { transactions: PDFTransaction[]; invoice?: PDFInvoiceMatch | null } = parsedPDF;
         
-        if (result.isScanned) {
+        // Scanned statements go through server-side OCR first
+        if (parsedPDF.isScanned) {
           setIsPDFScanned(true);
-          setPdfRawText(result.rawText);
-          toast({ 
-            title: "Scanned PDF detected", 
-            description: "This appears to be a scanned document. Text extraction may be limited. Try using a digital bank statement export.",
-            variant: "destructive" 
-          });
-          setIsAnalyzing(false);
-          return;
+          setOcrProgress({ page: 0, pages: parsedPDF.numPages });
+          const ocr = await performOCROnPDF(file, (page, pages) => setOcrProgress({ page, pages }));
+          setOcrProgress(null);
+          setPdfRawText(ocr.text);
+          result = ocr;
+        }
+        
+        if (result.invoice) {
+          setInvoiceOffer({ file, match: result.invoice });
         }
         
         if (result.transactions.length === 0) {
+          if (result.invoice) {
+            setIsAnalyzing(false);
+            return;
+          }
           toast({ 
             title: "No transactions found", 
-            description: "Could not detect any transactions in this PDF. Please ensure it's a bank statement or transaction export.",
+            description: parsedPDF.isScanned
+              ? "Text recognition found no transactions in this scan. A digital export from your bank works best."
+              : "Could not detect any transactions in this PDF. Please ensure it's a bank statement or transaction export.",
             variant: "destructive" 
           });
           setIsAnalyzing(false);
@@ -106,41 +205,50 @@ export function SmartImportDialog() {
           description: tx.description,
           amount: tx.amount,
           currency: tx.currency,
+          direction: tx.direction,
           raw: tx.raw,
         }));
         
         setTransactions(parsed);
         
         // Automatically analyze PDF transactions
-        setTimeout(() => {
-          const found = analyzeImportedTransactions(parsed, subscriptions);
-          setCandidates(found);
-          setSelectedCandidates(found.map((_, i) => i));
-          setIgnoredCandidates([]);
-          setStep('results');
-          setIsAnalyzing(false);
-          
-          if (found.length === 0) {
-            toast({ 
-              title: "No subscriptions detected", 
-              description: `Analyzed ${parsed.length} transactions but couldn't find recurring patterns.`,
-            });
-          } else {
-            toast({
-              title: `Found ${found.length} potential subscriptions`,
-              description: `From ${parsed.length} transactions. Review and import.`,
-            });
-          }
-        }, 1000);
+        await runAnalysis(parsed, file.name);
         
       } catch (error: any) {
         setIsAnalyzing(false);
+        setOcrProgress(null);
         toast({ 
           title: "PDF parsing failed", 
           description: error.message || "Could not parse PDF file. Ensure it's a valid bank statement.",
           variant: "destructive" 
         });
       }
+    } else if (statementFormat) {
+      // CAMT.053 / MT940 files have a fixed layout - no column mapping needed
+      try {
+        const parsed = await parseStatementFile(file, statementFormat);
+        
+        if (parsed.length === 0) {
+          toast({ 
+            title: "No transactions found", 
+            description: "The statement file contains no booked transactions.",
+            variant: "destructive" 
+          });
+          setIsAnalyzing(false);
+          return;
+        }
+        
+        setTransactions(parsed);
+        await runAnalysis(parsed, file.name);
+        
+      } catch (error: any) {
+        setIsAnalyzing(false);
+        toast({ 
+          title: "Statement parsing failed", 
+          description: error.message || "Could not read the CAMT.053 / MT940 file.",
+          variant: "destructive" 
+        });
+      }
     } else {
       // Handle CSV upload
       Papa.parse(file, {
@@ -180,7 +288,7 @@ export function SmartImportDialog() {
         }
       });
     }
-  }, [subscriptions]);
+  }, [runAnalysis]);
 
   const handleAnalyze = useCallback(() => {
     setIsAnalyzing(true);
@@ -205,27 +313,35 @@ export function SmartImportDialog() {
     setTransactions(parsed);
     
     // Analyze for subscriptions
-    setTimeout(() => {
-      const found = analyzeImportedTransactions(parsed, subscriptions);
-      setCandidates(found);
-      setSelectedCandidates(found.map((_, i) => i));
+    runAnalysis(parsed, fileName, columnMapping);
+  }, [csvData, columnMapping, fileName, runAnalysis]);
+
+  // Combine every stored import into one history (catches yearly subscriptions)
+  const handleReanalyze = async () => {
+    setIsAnalyzing(true);
+    try {
+      const result = await api.reanalyzeImports();
+      notifyPriceChanges(result.priceChanges);
+      setFileName('Import history');
+      setCandidates(result.candidates);
+      setSelectedCandidates(result.candidates.map((_, i) => i));
       setIgnoredCandidates([]);
       setStep('results');
-      setIsAnalyzing(false);
       
-      if (found.length === 0) {
-        toast({ 
-          title: "No subscriptions detected", 
-          description: `Analyzed ${parsed.length} transactions but couldn't find recurring patterns.`,
-        });
-      } else {
-        toast({
-          title: `Found ${found.length} potential subscriptions`,
-          description: `From ${parsed.length} transactions. Review and import.`,
-        });
-      }
-    }, 1000);
-  }, [csvData, columnMapping, subscriptions]);
+      toast({
+        title: `Found ${result.candidates.length} potential subscriptions`,
+        description: `From ${result.transactionCount} stored transactions across all imports.`,
+      });
+    } catch (error: any) {
+      toast({ 
+        title: "Re-analysis failed", 
+        description: error.message || "Could not analyze import history.",
+        variant: "destructive" 
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
 
   const handleImport = async () => {
     let imported = 0;
@@ -236,17 +352,25 @@ export function SmartImportDialog() {
       
       const candidate = candidates[index];
       
-      // Check if subscription already exists
+      // Check if subscription already exists (detection matches SEPA mandates too)
       const existing = subscriptions.find(sub => 
+        sub.id === candidate.existingSubscriptionId ||
         sub.name.toLowerCase() === candidate.subscription.name?.toLowerCase() ||
         (sub.providerId && sub.providerId === candidate.subscription.providerId)
       );
       
       if (existing) {
-        // Update existing subscription (price change, next payment)
+        // Update existing subscription (next payment, mandate if not known yet). Logged in,
+        // the server has already moved the price to the latest charge and recorded the
+        // change; locally the latest charge is the new price (not the detected average).
+        const latestCharge = candidate.transactions[candidate.transactions.length - 1];
         await updateSubscription(existing.id, {
-          price: candidate.subscription.price,
+          ...(!user && latestCharge && { price: Math.abs(latestCharge.amount) }),
           nextPaymentDate: candidate.subscription.nextPaymentDate,
+          ...(!existing.creditorId && candidate.subscription.creditorId && {
+            creditorId: candidate.subscription.creditorId,
+            mandateReference: candidate.subscription.mandateReference,
+          }),
         });
         updated++;
       } else {
@@ -293,6 +417,24 @@ export function SmartImportDialog() {
     return 'Very Low';
   };
 
+  const invoiceBanner = invoiceOffer && (
+    <Alert>
+      <Lock className="h-4 w-4" />
+      <AlertDescription className="flex flex-col gap-3">
+        <span>
+          This looks like an invoice from <strong>{invoiceOffer.match.subscriptionName}</strong>
+          {invoiceOffer.match.date && <> dated {invoiceOffer.match.date}</>}
+          {invoiceOffer.match.amount != null && <> over {invoiceOffer.match.amount.toFixed(2)} {invoiceOffer.match.currency}</>}.
+          Save it to that subscription's Safebox?
+        </span>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={saveInvoice} data-testid="button-save-invoice">Save Invoice</Button>
+          <Button size="sm" variant="ghost" onClick={() => setInvoiceOffer(null)}>Not now</Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+
   return (
     <Dialog open={open} onOpenChange={(o) => { setOpen(o); if (!o) reset(); }}>
       <DialogTrigger asChild>
@@ -320,8 +462,17 @@ export function SmartImportDialog() {
                     {isAnalyzing ? (
                       <div className="flex flex-col items-center animate-pulse">
                         <Sparkles className="h-10 w-10 mb-3 text-primary animate-spin" />
-                        <p className="text-sm font-medium">Analyzing file...</p>
-                        <p className="text-xs text-muted-foreground">This may take a moment</p>
+                        {ocrProgress ? (
+                          <>
+                            <p className="text-sm font-medium">Reading scanned statement...</p>
+                            <p className="text-xs text-muted-foreground">Page {Math.min(ocrProgress.page + 1, ocrProgress.pages)} of {ocrProgress.pages}</p>
+                          </>
+                        ) : (
+                          <>
+                            <p className="text-sm font-medium">Analyzing file...</p>
+                            <p className="text-xs text-muted-foreground">This may take a moment</p>
+                          </>
+                        )}
                       </div>
                     ) : (
                       <>
@@ -330,20 +481,35 @@ export function SmartImportDialog() {
                           <FileText className="h-10 w-10 text-muted-foreground" />
                         </div>
                         <p className="text-sm font-medium mb-1">Click to upload or drag and drop</p>
-                        <p className="text-xs text-muted-foreground">CSV or PDF bank statements</p>
+                        <p className="text-xs text-muted-foreground">CSV, PDF, CAMT.053 or MT940 bank statements</p>
                       </>
                     )}
                   </div>
                   <Input 
                     type="file" 
                     className="hidden" 
-                    accept=".csv,.pdf,application/pdf" 
+                    accept=".csv,.pdf,application/pdf,.xml,.sta,.mt940,.940,.txt" 
                     onChange={handleFileUpload} 
                     disabled={isAnalyzing}
                     data-testid="input-file-upload"
                   />
                 </label>
               </div>
+              
+              {invoiceBanner}
+              
+              {user && (
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={handleReanalyze} 
+                  disabled={isAnalyzing}
+                  data-testid="button-reanalyze-history"
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Re-analyze all previous imports
+                </Button>
+              )}
             </div>
           </>
         )}
@@ -480,6 +646,8 @@ export function SmartImportDialog() {
               </DialogDescription>
             </DialogHeader>
             
+            {invoiceBanner}
+            
             <ScrollArea className="h-[400px] pr-4">
               <div className="space-y-3">
                 {candidates.map((candidate, index) => {
@@ -518,14 +686,14 @@ export function SmartImportDialog() {
                               )}
                             </label>
                             <p className="text-xs text-muted-foreground mt-1">
-                              {candidate.reason} • {candidate.interval}
+                              {candidate.reason} • {candidateSchedule(candidate)}
                             </p>
                           </div>
                           <div className="text-right">
                             <div className="font-bold">
                               {candidate.subscription.price?.toFixed(2)} {candidate.subscription.currency}
                             </div>
-                            <p className="text-xs text-muted-foreground">per {candidate.interval}</p>
+                            <p className="text-xs text-muted-foreground">{candidateSchedule(candidate)}</p>
                           </div>
                         </div>
                         
@@ -1,6 +1,11 @@
-import { Subscription } from "@/lib/types";
-import { format, differenceInDays, parseISO } from "date-fns";
-import { Calendar, CreditCard, AlertCircle, ExternalLink, ShieldCheck } from "lucide-react";
+import { Subscription, PaymentSummary, PriceChange } from "@/lib/types";
+import { format, differenceInDays, parseISO, startOfDay } from "date-fns";
+import { describeInterval, rollNextPaymentDate, subscriptionInterval, todayISO } from "@shared/billing-dates";
+import { calculateCancellationDeadline } from "@shared/contract-terms";
+import { monthlyCost } from "@shared/costs";
+import { isTrial, paidPrice } from "@shared/trials";
+import { STATUS_LABELS } from "@shared/lifecycle";
+import { Calendar, CreditCard, AlertCircle, ExternalLink, ShieldCheck, Receipt, TrendingUp, TrendingDown, PauseCircle, PlayCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,47 +15,85 @@ import { PROVIDERS } from "@/data/providers";
 interface SubscriptionCardProps {
   subscription: Subscription;
   onCancel: (id: string) => void;
+  onResume?: (id: string) => void;
+  paymentSummary?: PaymentSummary;
+  priceChange?: PriceChange;
 }
 
-export function SubscriptionCard({ subscription, onCancel }: SubscriptionCardProps) {
-  const nextPayment = parseISO(subscription.nextPaymentDate);
-  const daysUntilPayment = differenceInDays(nextPayment, new Date());
+export function SubscriptionCard({ subscription, onCancel, onResume, paymentSummary, priceChange }: SubscriptionCardProps) {
+  // Roll forward on render too, so a card left open overnight never shows a stale date
+  const nextPayment = parseISO(rollNextPaymentDate(subscription));
+  const daysUntilPayment = differenceInDays(nextPayment, startOfDay(new Date()));
   
   const isUrgent = daysUntilPayment <= 7 && daysUntilPayment >= 0;
-  const isOverdue = daysUntilPayment < 0;
+  // Overdue means the latest expected charge is missing from the imported
+  // statements; an older gap alone still shows up as "missed" below
+  const isOverdue = paymentSummary?.lastExpectedMissed ?? false;
   
+  const deadline = calculateCancellationDeadline(subscription);
+  const daysUntilDeadline = differenceInDays(parseISO(deadline.lastCancellationDate), startOfDay(new Date()));
+  
+  const isPendingCancellation = subscription.status === "pending_cancellation";
+  const isPaused = subscription.status === "paused";
+  // A pause that has not started yet
+  const plannedPause = subscription.active && subscription.pauseStartDate && subscription.pauseStartDate > todayISO()
+    ? subscription.pauseStartDate
+    : null;
+  const trialEnd = isTrial(subscription) ? parseISO(subscription.trialEndDate) : null;
+  const daysUntilTrialEnd = trialEnd ? differenceInDays(trialEnd, startOfDay(new Date())) : null;
+
+  const interval = subscriptionInterval(subscription);
   const provider = subscription.providerId ? PROVIDERS[subscription.providerId] : null;
 
   return (
-    <Card className={`overflow-hidden transition-all hover:shadow-md border-border/50 bg-card/40 backdrop-blur-sm ${!subscription.active ? 'opacity-60 grayscale' : ''}`}>
+    <Card className={`overflow-hidden transition-all hover:shadow-md border-border/50 bg-card/40 backdrop-blur-sm ${!subscription.active ? 'opacity-60' : ''} ${!subscription.active && !isPaused ? 'grayscale' : ''}`}>
       <CardHeader className="flex flex-row items-start justify-between pb-2">
         <div className="space-y-1">
           <div className="flex items-center gap-2">
-             <CardTitle className="font-heading text-xl">{subscription.name}</CardTitle>
+             <Link href={`/subscriptions/${subscription.id}`}>
+               <CardTitle className="font-heading text-xl hover:underline cursor-pointer">{subscription.name}</CardTitle>
+             </Link>
              {provider && (
                <ShieldCheck className="h-4 w-4 text-blue-400" aria-label="Verified Provider" />
              )}
           </div>
           <div className="text-sm text-muted-foreground flex items-center gap-1">
             <Badge variant="outline" className="text-[10px] h-5 px-1.5 font-normal uppercase tracking-wider">{subscription.category}</Badge>
+            {trialEnd && (
+              <Badge variant="secondary" className="text-[10px] h-5 px-1.5 font-normal uppercase tracking-wider">Trial</Badge>
+            )}
           </div>
         </div>
         <div className="text-right">
           <div className="text-2xl font-bold tracking-tight">
             {subscription.price.toFixed(2)} <span className="text-sm font-normal text-muted-foreground">{subscription.currency}</span>
           </div>
-          <div className="text-xs text-muted-foreground capitalize">{subscription.interval}</div>
+          <div className="text-xs text-muted-foreground capitalize">{describeInterval(interval)}</div>
+          {describeInterval(interval) !== "monthly" && (
+            <div className="text-xs text-muted-foreground">≈ {monthlyCost(subscription.price, interval).toFixed(2)} / month</div>
+          )}
         </div>
       </CardHeader>
       
       <CardContent className="space-y-3 pb-3">
+        {priceChange && (
+          <div className="p-2 bg-yellow-500/10 border border-yellow-500/20 rounded text-yellow-600 dark:text-yellow-400 text-xs flex items-center gap-2">
+            {priceChange.newPrice > priceChange.oldPrice 
+              ? <TrendingUp className="h-3.5 w-3.5 shrink-0" /> 
+              : <TrendingDown className="h-3.5 w-3.5 shrink-0" />}
+            <span>
+              {subscription.name} went from {priceChange.oldPrice.toFixed(2)} to {priceChange.newPrice.toFixed(2)} on {priceChange.date}
+            </span>
+          </div>
+        )}
+        
         {subscription.active ? (
           <div className="space-y-2 text-sm">
             <div className={`flex items-center gap-2 ${isUrgent ? 'text-orange-500 font-medium' : isOverdue ? 'text-red-500 font-bold' : 'text-muted-foreground'}`}>
               <Calendar className="h-4 w-4" />
               <span>
                 {isOverdue 
-                  ? `Overdue by ${Math.abs(daysUntilPayment)} days` 
+                  ? `Missed charge • Next: ${format(nextPayment, "MMM d, yyyy")}` 
                   : isUrgent 
                     ? `Due in ${daysUntilPayment} days` 
                     : `Next: ${format(nextPayment, "MMM d, yyyy")}`}
@@ -62,22 +105,67 @@ export function SubscriptionCard({ subscription, onCancel }: SubscriptionCardPro
               <span>{subscription.paymentMethod}</span>
             </div>
             
-            {subscription.noticePeriodDays > 0 && (
-              <div className="flex items-center gap-2 text-muted-foreground text-xs mt-2">
+            {paymentSummary && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Receipt className="h-4 w-4" />
+                <span>
+                  Paid {paymentSummary.totalPaid.toFixed(2)} {subscription.currency} in {paymentSummary.paymentCount} payments
+                </span>
+                {paymentSummary.missedCount > 0 && (
+                  <Badge variant="destructive" className="text-[10px] h-5 px-1.5">{paymentSummary.missedCount} missed</Badge>
+                )}
+                {paymentSummary.extraCount > 0 && (
+                  <Badge variant="secondary" className="text-[10px] h-5 px-1.5">{paymentSummary.extraCount} extra</Badge>
+                )}
+              </div>
+            )}
+            
+            {plannedPause && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <PauseCircle className="h-4 w-4" />
+                <span>Pause planned from {format(parseISO(plannedPause), "MMM d, yyyy")}</span>
+              </div>
+            )}
+            
+            {isPendingCancellation ? (
+              <div className="flex items-center gap-2 text-xs mt-2 text-muted-foreground">
+                <AlertCircle className="h-3.5 w-3.5" />
+                <span>
+                  Cancelled, runs until {subscription.cancellationDate ? format(parseISO(subscription.cancellationDate), "MMM d, yyyy") : "the end of the term"}
+                </span>
+              </div>
+            ) : trialEnd && daysUntilTrialEnd !== null ? (
+              <div className={`flex items-center gap-2 text-xs mt-2 ${daysUntilTrialEnd <= subscription.reminderLeadDays ? 'text-orange-500 font-medium' : 'text-muted-foreground'}`}>
+                <AlertCircle className="h-3.5 w-3.5" />
+                <span>
+                  Trial ends {format(trialEnd, "MMM d, yyyy")}, then {paidPrice(subscription).toFixed(2)} {subscription.currency}
+                </span>
+              </div>
+            ) : (
+              <div className={`flex items-center gap-2 text-xs mt-2 ${daysUntilDeadline <= 14 ? 'text-orange-500 font-medium' : 'text-muted-foreground'}`}>
                 <AlertCircle className="h-3.5 w-3.5" />
-                <span>{subscription.noticePeriodDays} days notice required</span>
+                <span>
+                  Cancel by {format(parseISO(deadline.lastCancellationDate), "MMM d, yyyy")} (ends {format(parseISO(deadline.contractEndDate), "MMM d, yyyy")})
+                </span>
               </div>
             )}
           </div>
         ) : (
           <div className="p-2 bg-muted/50 rounded text-center text-muted-foreground text-sm">
-            Cancelled on {subscription.cancellationDate ? format(parseISO(subscription.cancellationDate), "MMM d, yyyy") : "Unknown date"}
+            {isPaused
+              ? subscription.pauseEndDate ? `Paused until ${format(parseISO(subscription.pauseEndDate), "MMM d, yyyy")}` : "Paused until resumed"
+              : `${STATUS_LABELS[subscription.status]} on ${subscription.cancellationDate ? format(parseISO(subscription.cancellationDate), "MMM d, yyyy") : "unknown date"}`}
           </div>
         )}
       </CardContent>
 
       <CardFooter className="pt-2">
-        {subscription.active && (
+        {isPaused && onResume && (
+          <Button variant="outline" className="w-full" onClick={() => onResume(subscription.id)}>
+            <PlayCircle className="mr-2 h-4 w-4" /> Resume
+          </Button>
+        )}
+        {subscription.active && !isPendingCancellation && (
           <Link href={`/cancel/${subscription.id}`} className="w-full">
             <Button variant="outline" className="w-full hover:bg-destructive/10 hover:text-destructive hover:border-destructive/30 transition-colors">
               Cancel Subscription
@@ -6,7 +6,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { annualCost, monthlyCost } from "@shared/costs";
+import { describeInterval, subscriptionInterval, INTERVAL_UNITS } from "@shared/billing-dates";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent } from "@/components/ui/card";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -24,15 +27,23 @@ export function SubscriptionForm({ defaultValues, onSubmit, onCancel }: Subscrip
   const [openProvider, setOpenProvider] = useState(false);
 
   const form = useForm<Subscription>({
-    resolver: zodResolver(subscriptionSchema.omit({ id: true })),
+    resolver: zodResolver(subscriptionSchema.omit({ id: true }).refine(
+      data => data.status !== "trial" || !!data.trialEndDate,
+      { message: "When does the trial end?", path: ["trialEndDate"] }
+    )),
     defaultValues: {
       name: "",
       price: 0,
       currency: "EUR",
       interval: "monthly",
+      intervalCount: 1,
+      intervalUnit: "month",
       startDate: new Date().toISOString().split("T")[0],
       nextPaymentDate: new Date().toISOString().split("T")[0],
       noticePeriodDays: 30,
+      minimumTermMonths: 0,
+      noticeAnchor: "term_end",
+      reminderLeadDays: 7,
       paymentMethod: "Credit Card",
       category: "Other",
       active: true,
@@ -41,6 +52,27 @@ export function SubscriptionForm({ defaultValues, onSubmit, onCancel }: Subscrip
     } as any,
   });
 
+  const interval = subscriptionInterval({
+    interval: form.watch("interval"),
+    intervalCount: form.watch("intervalCount"),
+    intervalUnit: form.watch("intervalUnit"),
+  });
+
+  const isTrialMode = form.watch("status") === "trial";
+
+  const handleTrialToggle = (checked: boolean) => {
+    form.setValue("status", checked ? "trial" : "active");
+    if (checked) {
+      // Trials are usually free; the entered price becomes the price after the trial
+      form.setValue("priceAfterTrial", form.getValues("price") || null);
+      form.setValue("price", 0);
+    } else {
+      form.setValue("price", form.getValues("priceAfterTrial") ?? form.getValues("price"));
+      form.setValue("trialEndDate", null);
+      form.setValue("priceAfterTrial", null);
+    }
+  };
+
   const handleProviderSelect = (providerId: string) => {
     const provider = PROVIDERS[providerId];
     if (provider) {
@@ -158,13 +190,75 @@ export function SubscriptionForm({ defaultValues, onSubmit, onCancel }: Subscrip
             
             <Card className="bg-card/50 backdrop-blur border-border/50">
               <CardContent className="pt-6 space-y-4">
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between gap-4">
+                      <div className="space-y-1">
+                        <FormLabel>This is a free trial</FormLabel>
+                        <FormDescription>We remind you before it turns into a paid plan.</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value === "trial"} onCheckedChange={handleTrialToggle} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                {isTrialMode && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="trialEndDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Trial Ends</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="date" 
+                              value={field.value ?? ""}
+                              onChange={e => {
+                                field.onChange(e.target.value || null);
+                                // The first paid charge is due when the trial converts
+                                if (e.target.value) form.setValue("nextPaymentDate", e.target.value);
+                              }} 
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="priceAfterTrial"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Price After Trial</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              step="0.01" 
+                              min={0}
+                              value={field.value ?? ""}
+                              onChange={e => field.onChange(e.target.value ? parseFloat(e.target.value) : null)} 
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
                     name="price"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Price</FormLabel>
+                        <FormLabel>{isTrialMode ? "Trial Price" : "Price"}</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -220,10 +314,61 @@ export function SubscriptionForm({ defaultValues, onSubmit, onCancel }: Subscrip
                           ))}
                         </SelectContent>
                       </Select>
+                      {describeInterval(interval) !== "monthly" && (
+                        <FormDescription>
+                          ≈ {monthlyCost(form.watch("price") || 0, interval).toFixed(2)} per month, {annualCost(form.watch("price") || 0, interval).toFixed(2)} per year
+                        </FormDescription>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+
+                {form.watch("interval") === "custom" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="intervalCount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Every</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              min={1}
+                              {...field} 
+                              onChange={e => field.onChange(parseInt(e.target.value) || 1)} 
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="intervalUnit"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Unit</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {INTERVAL_UNITS.map((unit) => (
+                                <SelectItem key={unit} value={unit}>{unit}s</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -279,6 +424,91 @@ export function SubscriptionForm({ defaultValues, onSubmit, onCancel }: Subscrip
                     </FormItem>
                   )}
                 />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="minimumTermMonths"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimum Term (Months)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="number" 
+                            min={0}
+                            {...field} 
+                            onChange={e => field.onChange(parseInt(e.target.value) || 0)} 
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="renewalTermMonths"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Renews For (Months)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="number" 
+                            min={1}
+                            placeholder="Billing interval"
+                            value={field.value ?? ""}
+                            onChange={e => field.onChange(e.target.value ? parseInt(e.target.value) : null)} 
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="noticeAnchor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notice Must Reach Them Before</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="End of term" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="term_end">End of term</SelectItem>
+                          <SelectItem value="month_end">End of a month</SelectItem>
+                          <SelectItem value="anytime">Any day</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Leave the renewal term empty if it renews per billing interval.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="reminderLeadDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Remind Me (Days Before Deadline)</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          min={0}
+                          {...field} 
+                          onChange={e => field.onChange(parseInt(e.target.value) || 0)} 
+                        />
+                      </FormControl>
+                      <FormDescription>You get an in-app notification and an email this many days before the last day to cancel.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </CardContent>
             </Card>
 
@@ -0,0 +1,28 @@
+import { useState, useEffect } from "react";
+import { SpendingAnalytics } from "./types";
+import { useAuth } from "@/lib/auth";
+import { api } from "@/lib/api";
+
+// Server-side spending aggregation (see server/analytics.ts)
+export function useAnalytics(months = 24) {
+  const { user } = useAuth();
+  const [analytics, setAnalytics] = useState<SpendingAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setAnalytics(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    api.getAnalytics(months)
+      .then(setAnalytics)
+      .catch((e: any) => setError(e.message || "Network error occurred"))
+      .finally(() => setLoading(false));
+  }, [user, months]);
+
+  return { analytics, loading, error };
+}
@@ -1,4 +1,6 @@
-import { Subscription } from "./types";
+import { Subscription, ImportedTransaction, TransactionStatusFilter, PaymentSummary, PriceChange, AppNotification, CalendarFeed, ExchangeRate, SpendingAnalytics, SubscriptionEvent, SubscriptionDocument, SafeboxUsage } from "./types";
+import type { PaymentHistory } from "@shared/payment-history";
+import type { ParsedTransaction, SubscriptionCandidate } from "./importer";
 
 interface ApiResponse<T> {
   data?: T;
@@ -13,13 +15,76 @@ function toBackendFormat(sub: any): any {
   return {
     ...sub,
     price: toCents(sub.price),
+    priceAfterTrial: sub.priceAfterTrial == null ? sub.priceAfterTrial : toCents(sub.priceAfterTrial),
   };
 }
 
+function documentFromBackendFormat(doc: any): SubscriptionDocument {
+  return doc.amount == null ? doc : { ...doc, amount: fromCents(doc.amount) };
+}
+
 function fromBackendFormat(sub: any): Subscription {
   return {
     ...sub,
     price: fromCents(sub.price),
+    priceAfterTrial: sub.priceAfterTrial == null ? sub.priceAfterTrial : fromCents(sub.priceAfterTrial),
+    documents: (sub.documents ?? []).map(documentFromBackendFormat),
+  };
+}
+
+function candidateFromBackendFormat(candidate: any): SubscriptionCandidate {
+  return {
+    ...candidate,
+    subscription: fromBackendFormat(candidate.subscription),
+    transactions: candidate.transactions.map((tx: any) => ({
+      date: tx.date,
+      description: tx.description,
+      amount: fromCents(tx.amount),
+      currency: tx.currency,
+      direction: tx.direction,
+      creditorId: tx.creditorId ?? undefined,
+      mandateReference: tx.mandateReference ?? undefined,
+      raw: tx.rawData,
+    })),
+  };
+}
+
+function transactionFromBackendFormat(tx: any): ImportedTransaction {
+  return {
+    id: tx.id,
+    importJobId: tx.importJobId,
+    date: tx.date,
+    description: tx.description,
+    amount: fromCents(tx.amount),
+    currency: tx.currency,
+    direction: tx.direction,
+    refundOfId: tx.refundOfId,
+    creditorId: tx.creditorId,
+    mandateReference: tx.mandateReference,
+    normalizedMerchant: tx.normalizedMerchant,
+    subscriptionId: tx.subscriptionId,
+    ignored: tx.ignored,
+  };
+}
+
+function analyticsFromBackendFormat(data: any): SpendingAnalytics {
+  const months = (list: any[]) => list.map(m => ({ month: m.month, total: fromCents(m.total) }));
+  const shares = (list: any[]) => list.map(s => ({ name: s.name, monthly: fromCents(s.monthly) }));
+  return {
+    baseCurrency: data.baseCurrency,
+    history: months(data.history),
+    forecast: months(data.forecast),
+    byCategory: shares(data.byCategory),
+    byPaymentMethod: shares(data.byPaymentMethod),
+    unconvertedCurrencies: data.unconvertedCurrencies,
+  };
+}
+
+function priceChangeFromBackendFormat(entry: any): PriceChange {
+  return {
+    ...entry,
+    oldPrice: fromCents(entry.oldPrice),
+    newPrice: fromCents(entry.newPrice),
   };
 }
 
@@ -145,10 +210,10 @@ export const api = {
     return fromBackendFormat(data);
   },
 
-  async updateSubscription(id: string, updates: Partial<Subscription>): Promise<Subscription> {
-    const backendUpdates = updates.price !== undefined 
-      ? { ...updates, price: toCents(updates.price) }
-      : updates;
+  async updateSubscription(id: string, updates: Partial<Subscription> & { statusNote?: string }): Promise<Subscription> {
+    const backendUpdates = { ...updates };
+    if (updates.price !== undefined) backendUpdates.price = toCents(updates.price);
+    if (updates.priceAfterTrial != null) backendUpdates.priceAfterTrial = toCents(updates.priceAfterTrial);
       
     const res = await fetch(`/api/subscriptions/${id}`, {
       method: "PATCH",
@@ -156,11 +221,68 @@ export const api = {
       body: JSON.stringify(backendUpdates),
       credentials: "include",
     });
-    if (!res.ok) throw new Error("Failed to update subscription");
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || "Failed to update subscription");
+    }
     const data = await res.json();
     return fromBackendFormat(data);
   },
 
+  async getSubscriptionEvents(id: string): Promise<SubscriptionEvent[]> {
+    const res = await fetch(`/api/subscriptions/${id}/events`, {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch subscription history");
+    return res.json();
+  },
+
+  // SAFEBOX
+  async uploadDocument(
+    subscriptionId: string,
+    file: File,
+    meta: { type: string; name?: string; notes?: string; date?: string; amount?: number; currency?: string },
+  ): Promise<SubscriptionDocument> {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("type", meta.type);
+    if (meta.name) formData.append("name", meta.name);
+    if (meta.notes) formData.append("notes", meta.notes);
+    if (meta.date) formData.append("date", meta.date);
+    if (meta.amount != null) formData.append("amount", String(toCents(meta.amount)));
+    if (meta.currency) formData.append("currency", meta.currency);
+    const res = await fetch(`/api/subscriptions/${subscriptionId}/documents`, {
+      method: "POST",
+      body: formData,
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || err.message || "Failed to upload document");
+    }
+    return documentFromBackendFormat(await res.json());
+  },
+
+  documentUrl(subscriptionId: string, documentId: string): string {
+    return `/api/subscriptions/${subscriptionId}/documents/${documentId}`;
+  },
+
+  async deleteDocument(subscriptionId: string, documentId: string): Promise<void> {
+    const res = await fetch(`/api/subscriptions/${subscriptionId}/documents/${documentId}`, {
+      method: "DELETE",
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to delete document");
+  },
+
+  async getSafeboxUsage(): Promise<SafeboxUsage> {
+    const res = await fetch("/api/safebox/usage", {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch Safebox usage");
+    return res.json();
+  },
+
   async deleteSubscription(id: string): Promise<void> {
     const res = await fetch(`/api/subscriptions/${id}`, {
       method: "DELETE",
@@ -181,4 +303,269 @@ export const api = {
     const data = await res.json();
     return data.imported;
   },
+
+  // IMPORT
+  async analyzeImport(
+    fileName: string,
+    transactions: ParsedTransaction[],
+    columnMapping?: Record<string, string | undefined>
+  ): Promise<{ jobId: string; importedCount: number; candidates: SubscriptionCandidate[]; priceChanges: PriceChange[] }> {
+    const res = await fetch("/api/import/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName, transactions, columnMapping }),
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Analysis failed");
+    }
+    const data = await res.json();
+    return {
+      jobId: data.jobId,
+      importedCount: data.importedCount,
+      candidates: data.candidates.map(candidateFromBackendFormat),
+      priceChanges: data.priceChanges.map(priceChangeFromBackendFormat),
+    };
+  },
+
+  async reanalyzeImports(): Promise<{ transactionCount: number; candidates: SubscriptionCandidate[]; priceChanges: PriceChange[] }> {
+    const res = await fetch("/api/import/reanalyze", {
+      method: "POST",
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Re-analysis failed");
+    }
+    const data = await res.json();
+    return {
+      transactionCount: data.transactionCount,
+      candidates: data.candidates.map(candidateFromBackendFormat),
+      priceChanges: data.priceChanges.map(priceChangeFromBackendFormat),
+    };
+  },
+
+  // TRANSACTIONS
+  async getTransactions(filters: {
+    status?: TransactionStatusFilter;
+    search?: string;
+    importJobId?: string;
+    subscriptionId?: string;
+  } = {}): Promise<ImportedTransaction[]> {
+    const params = new URLSearchParams();
+    if (filters.status && filters.status !== "all") params.set("status", filters.status);
+    if (filters.search) params.set("search", filters.search);
+    if (filters.importJobId) params.set("importJobId", filters.importJobId);
+    if (filters.subscriptionId) params.set("subscriptionId", filters.subscriptionId);
+    
+    const res = await fetch(`/api/transactions?${params.toString()}`, {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch transactions");
+    const data = await res.json();
+    return data.map(transactionFromBackendFormat);
+  },
+
+  async linkTransaction(id: string, subscriptionId: string): Promise<ImportedTransaction> {
+    const res = await fetch(`/api/transactions/${id}/link`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ subscriptionId }),
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Failed to link transaction");
+    }
+    return transactionFromBackendFormat(await res.json());
+  },
+
+  async unlinkTransaction(id: string): Promise<ImportedTransaction> {
+    const res = await fetch(`/api/transactions/${id}/unlink`, {
+      method: "POST",
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to unlink transaction");
+    return transactionFromBackendFormat(await res.json());
+  },
+
+  async ignoreTransaction(id: string, ignored = true): Promise<ImportedTransaction> {
+    const res = await fetch(`/api/transactions/${id}/ignore`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ignored }),
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to update transaction");
+    return transactionFromBackendFormat(await res.json());
+  },
+
+  // PAYMENT HISTORY
+  async getPaymentHistory(subscriptionId: string): Promise<PaymentHistory> {
+    const res = await fetch(`/api/subscriptions/${subscriptionId}/payments`, {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch payment history");
+    const data = await res.json();
+    const convert = (p: any) => ({ ...p, amount: fromCents(p.amount) });
+    return {
+      ...data,
+      totalPaid: fromCents(data.totalPaid),
+      payments: data.payments.map(convert),
+      refunds: data.refunds.map(convert),
+      extra: data.extra.map(convert),
+    };
+  },
+
+  async getPaymentSummary(): Promise<Record<string, PaymentSummary>> {
+    const res = await fetch("/api/payments/summary", {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch payment summary");
+    const data: Record<string, PaymentSummary> = await res.json();
+    return Object.fromEntries(
+      Object.entries(data).map(([id, summary]) => [id, { ...summary, totalPaid: fromCents(summary.totalPaid) }])
+    );
+  },
+
+  // PRICE HISTORY
+  async getPriceHistory(subscriptionId: string): Promise<PriceChange[]> {
+    const res = await fetch(`/api/subscriptions/${subscriptionId}/price-history`, {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch price history");
+    const data = await res.json();
+    return data.map(priceChangeFromBackendFormat);
+  },
+
+  async getPriceChanges(days = 90): Promise<PriceChange[]> {
+    const res = await fetch(`/api/price-changes?days=${days}`, {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch price changes");
+    const data = await res.json();
+    return data.map(priceChangeFromBackendFormat);
+  },
+
+  // NOTIFICATIONS
+  async getNotifications(unreadOnly = false): Promise<AppNotification[]> {
+    const res = await fetch(`/api/notifications${unreadOnly ? "?unread=true" : ""}`, {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch notifications");
+    return res.json();
+  },
+
+  async markNotificationRead(id: string): Promise<void> {
+    const res = await fetch(`/api/notifications/${id}/read`, {
+      method: "POST",
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to update notification");
+  },
+
+  async markAllNotificationsRead(): Promise<void> {
+    const res = await fetch("/api/notifications/read-all", {
+      method: "POST",
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to update notifications");
+  },
+
+  // CALENDAR FEED
+  async getCalendarFeed(): Promise<CalendarFeed | null> {
+    const res = await fetch("/api/calendar/token", {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch calendar feed");
+    return res.json();
+  },
+
+  async createCalendarFeed(): Promise<CalendarFeed> {
+    const res = await fetch("/api/calendar/token", {
+      method: "POST",
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to create calendar feed");
+    return res.json();
+  },
+
+  async revokeCalendarFeed(): Promise<void> {
+    const res = await fetch("/api/calendar/token", {
+      method: "DELETE",
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to revoke calendar feed");
+  },
+
+  // CURRENCY SETTINGS & EXCHANGE RATES
+  async updateSettings(settings: { baseCurrency?: string }) {
+    const res = await fetch("/api/user/settings", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(settings),
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Failed to update settings");
+    }
+    const data = await res.json();
+    return data.user;
+  },
+
+  async getExchangeRates(): Promise<{ baseCurrency: string; rates: ExchangeRate[] }> {
+    const res = await fetch("/api/exchange-rates", {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch exchange rates");
+    return res.json();
+  },
+
+  async saveExchangeRate(rate: { currency: string; rate: number; date?: string }): Promise<ExchangeRate> {
+    const res = await fetch("/api/exchange-rates", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(rate),
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Failed to save exchange rate");
+    }
+    return res.json();
+  },
+
+  async importExchangeRates(file: File): Promise<{ importedCount: number; rates: ExchangeRate[] }> {
+    const formData = new FormData();
+    formData.append("file", file);
+    const res = await fetch("/api/exchange-rates/import", {
+      method: "POST",
+      body: formData,
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || err.message || "Failed to import exchange rates");
+    }
+    return res.json();
+  },
+
+  async deleteExchangeRate(id: string): Promise<void> {
+    const res = await fetch(`/api/exchange-rates/${id}`, {
+      method: "DELETE",
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to delete exchange rate");
+  },
+
+  // ANALYTICS
+  async getAnalytics(months = 24): Promise<SpendingAnalytics> {
+    const res = await fetch(`/api/analytics?months=${months}`, {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch analytics");
+    return analyticsFromBackendFormat(await res.json());
+  },
 };
@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { ExchangeRate } from "./types";
+import { latestRates, convertAmount, sumInCurrency } from "@shared/currency";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { api } from "@/lib/api";
+
+export function formatMoney(amount: number, currency: string, maximumFractionDigits = 2): string {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      minimumFractionDigits: Math.min(2, maximumFractionDigits),
+      maximumFractionDigits,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(maximumFractionDigits)} ${currency}`;
+  }
+}
+
+export function useCurrency() {
+  const { user } = useAuth();
+  const [baseCurrency, setBaseCurrencyState] = useState(user?.baseCurrency ?? "EUR");
+  const [entries, setEntries] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // FETCH DATA (server only - guests total in EUR without conversion)
+  const fetchRates = useCallback(async () => {
+    if (!user) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      const data = await api.getExchangeRates();
+      setBaseCurrencyState(data.baseCurrency);
+      setEntries(data.rates);
+    } catch (e) {
+      console.error("Fetch exchange rates error:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const rates = useMemo(() => latestRates(entries), [entries]);
+
+  const convert = useCallback(
+    (amount: number, from: string) => convertAmount(amount, from, baseCurrency, rates),
+    [baseCurrency, rates]
+  );
+
+  const total = useCallback(
+    (amounts: Array<{ amount: number; currency: string }>) => sumInCurrency(amounts, baseCurrency, rates),
+    [baseCurrency, rates]
+  );
+
+  // ACTIONS
+  const setBaseCurrency = async (currency: string) => {
+    try {
+      await api.updateSettings({ baseCurrency: currency });
+      setBaseCurrencyState(currency);
+      toast({ title: "Base Currency Updated", description: `Totals are now shown in ${currency}.` });
+    } catch (e: any) {
+      toast({ title: "Update Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  const saveRate = async (rate: { currency: string; rate: number; date?: string }) => {
+    try {
+      const saved = await api.saveExchangeRate(rate);
+      setEntries(prev => [saved, ...prev.filter(r => r.id !== saved.id)]);
+      toast({ title: "Rate Saved", duration: 1500 });
+    } catch (e: any) {
+      toast({ title: "Save Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  const importRates = async (file: File) => {
+    try {
+      const result = await api.importExchangeRates(file);
+      await fetchRates();
+      toast({ title: "Rates Imported", description: `${result.importedCount} currencies updated.` });
+    } catch (e: any) {
+      toast({ title: "Import Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  const deleteRate = async (id: string) => {
+    try {
+      await api.deleteExchangeRate(id);
+      setEntries(prev => prev.filter(r => r.id !== id));
+    } catch (e: any) {
+      toast({ title: "Delete Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  return {
+    baseCurrency,
+    entries,
+    rates,
+    loading,
+    convert,
+    total,
+    setBaseCurrency,
+    saveRate,
+    importRates,
+    deleteRate,
+  };
+}
@@ -1,21 +1,6 @@
 import { PROVIDERS } from "@/data/providers";
 import { Subscription } from "@/lib/types";
-
-// Helper to calculate next payment/cancellation dates
-export function calculateCancellationDate(startDate: string, noticePeriodDays: number, interval: string): Date {
-  // Simplified logic for demo
-  // Real world would be complex (monthly vs yearly contracts, exact start date alignment)
-  const today = new Date();
-  const noticeDate = new Date(today);
-  noticeDate.setDate(today.getDate() + noticePeriodDays);
-  
-  // Find next month/year end that fits
-  // This is a placeholder for complex contract logic
-  const targetDate = new Date(noticeDate);
-  targetDate.setDate(targetDate.getDate() + 1); // Tomorrow at earliest
-  
-  return targetDate;
-}
+import { buildICSCalendar } from "@shared/calendar";
 
 export function generateCancellationPDF(subscription: Subscription, userName: string, userAddress: string = "") {
   // Lazy load jspdf to avoid bundle bloat if not used
@@ -74,42 +59,7 @@ ${userName}`;
 }
 
 export function generateICSFile(subscriptions: Subscription[]) {
-  let icsContent = 
-`BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//SubControl//Subscription Manager//EN
-CALSCALE:GREGORIAN
-METHOD:PUBLISH
-`;
-
-  subscriptions.forEach(sub => {
-    if (!sub.active) return;
-    
-    const now = new Date();
-    const nextPayment = new Date(sub.nextPaymentDate);
-    // Simple recurrent event generator for next 12 occurrences for demo
-    // Real ICS libraries handle RRULE better
-    
-    // Just add next payment for now
-    const startDate = nextPayment.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    const endDate = new Date(nextPayment.getTime() + 3600000).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'; // 1 hour duration
-    
-    icsContent += `BEGIN:VEVENT
-UID:${sub.id}@subcontrol.app
-DTSTAMP:${now.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'}
-DTSTART:${startDate}
-DTEND:${endDate}
-SUMMARY:Payment: ${sub.name} (${sub.price} ${sub.currency})
-DESCRIPTION:Subscription payment for ${sub.name}.
-STATUS:CONFIRMED
-END:VEVENT
-`;
-
-    // Cancellation reminder if needed (e.g., 7 days before notice period ends)
-    // Simplified logic
-  });
-
-  icsContent += "END:VCALENDAR";
+  const icsContent = buildICSCalendar(subscriptions);
   
   const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8' });
   const link = document.createElement('a');
@@ -1,12 +1,19 @@
 import { PROVIDERS } from "@/data/providers";
 import { Subscription } from "@/lib/types";
+import { detectRecurringPayments } from "@shared/recurrence";
+import type { Direction } from "@shared/direction";
 
-// Transaction from CSV
+// Transaction from CSV, PDF or a CAMT/MT940 statement file
 export interface ParsedTransaction {
   date: string;
   description: string;
   amount: number;
   currency: string;
+  direction?: Direction; // see assignDirections in @shared/direction
+  // SEPA direct debit details, when the source carries them
+  creditorName?: string;
+  creditorId?: string;
+  mandateReference?: string;
   raw: any;
 }
 
@@ -15,182 +22,22 @@ export interface SubscriptionCandidate {
   subscription: Partial<Subscription>;
   confidence: number; // 0-100
   transactions: ParsedTransaction[];
-  interval: "monthly" | "yearly" | "weekly" | "quarterly";
+  interval: "weekly" | "biweekly" | "monthly" | "quarterly" | "half-yearly" | "yearly" | "custom";
   intervalDays: number;
   reason: string;
+  existingSubscriptionId?: string;
 }
 
-// Normalize merchant name
-function normalizeMerchant(description: string): string {
-  if (!description) return "";
-  
-  // Remove common payment indicators
-  let normalized = description
-    .toLowerCase()
-    .replace(/\d{4,}/g, '') // Remove long numbers (IDs, order numbers)
-    .replace(/[*]/g, '') // Remove asterisks
-    .replace(/\b(paypal|payment|lastschrift|sepa|kartenzahlung)\b/gi, '')
-    .trim();
-  
-  // Match known providers
-  for (const provider of Object.values(PROVIDERS)) {
-    const providerName = provider.name.toLowerCase();
-    if (normalized.includes(providerName)) {
-      return provider.name;
-    }
-  }
-  
-  // Extract first meaningful words (usually merchant name)
-  const words = normalized.split(/\s+/).filter(w => w.length > 2);
-  return words.slice(0, 3).join(' ');
-}
-
-// Calculate days between two dates
-function daysBetween(date1: string, date2: string): number {
-  const d1 = new Date(date1);
-  const d2 = new Date(date2);
-  return Math.abs((d2.getTime() - d1.getTime()) / (1000 * 60 * 60 * 24));
-}
-
-// Detect interval from transaction dates
-function detectInterval(dates: string[]): { interval: string; intervalDays: number; confidence: number } {
-  if (dates.length < 2) return { interval: "monthly", intervalDays: 30, confidence: 0 };
-  
-  const sortedDates = [...dates].sort();
-  const gaps: number[] = [];
-  
-  for (let i = 1; i < sortedDates.length; i++) {
-    gaps.push(daysBetween(sortedDates[i-1], sortedDates[i]));
-  }
-  
-  const avgGap = gaps.reduce((a, b) => a + b, 0) / gaps.length;
-  const variance = gaps.reduce((sum, gap) => sum + Math.pow(gap - avgGap, 2), 0) / gaps.length;
-  const stdDev = Math.sqrt(variance);
-  
-  // Determine interval type
-  let interval = "monthly";
-  let targetDays = 30;
-  
-  if (avgGap >= 350 && avgGap <= 380) {
-    interval = "yearly";
-    targetDays = 365;
-  } else if (avgGap >= 25 && avgGap <= 35) {
-    interval = "monthly";
-    targetDays = 30;
-  } else if (avgGap >= 5 && avgGap <= 9) {
-    interval = "weekly";
-    targetDays = 7;
-  } else if (avgGap >= 85 && avgGap <= 95) {
-    interval = "quarterly";
-    targetDays = 90;
-  }
-  
-  // Confidence based on consistency (lower std dev = higher confidence)
-  const consistency = Math.max(0, 100 - (stdDev / avgGap * 100));
-  
-  return { interval, intervalDays: Math.round(avgGap), confidence: Math.round(consistency) };
-}
-
-// Check if amounts are consistent
-function areAmountsConsistent(amounts: number[], tolerance = 0.05): boolean {
-  if (amounts.length < 2) return false;
-  
-  const avgAmount = amounts.reduce((a, b) => a + b, 0) / amounts.length;
-  return amounts.every(a => Math.abs(a - avgAmount) / Math.abs(avgAmount) < tolerance);
-}
-
-// Main analysis function
+// Main analysis function (detection logic lives in @shared/recurrence)
 export function analyzeImportedTransactions(
   transactions: ParsedTransaction[],
   existingSubscriptions: Subscription[] = []
 ): SubscriptionCandidate[] {
-  const candidates: SubscriptionCandidate[] = [];
-  const groups: Record<string, ParsedTransaction[]> = {};
-  
-  // Group by normalized merchant
-  transactions.forEach(tx => {
-    const merchant = normalizeMerchant(tx.description);
-    if (!merchant) return;
-    
-    if (!groups[merchant]) groups[merchant] = [];
-    groups[merchant].push(tx);
-  });
-  
-  // Analyze each group
-  Object.entries(groups).forEach(([merchant, txs]) => {
-    // Need at least 2 transactions to establish a pattern
-    if (txs.length < 2) return;
-    
-    // Sort by date
-    txs.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    
-    const amounts = txs.map(t => Math.abs(t.amount));
-    const dates = txs.map(t => t.date);
-    
-    // Check amount consistency
-    if (!areAmountsConsistent(amounts, 0.1)) return;
-    
-    const avgAmount = amounts.reduce((a, b) => a + b, 0) / amounts.length;
-    const { interval, intervalDays, confidence: intervalConfidence } = detectInterval(dates);
-    
-    // Overall confidence
-    const amountVariance = Math.max(...amounts) - Math.min(...amounts);
-    const amountConsistency = 100 - (amountVariance / avgAmount * 100);
-    const transactionFrequency = Math.min(100, txs.length * 20); // More transactions = higher confidence
-    
-    const confidence = Math.round(
-      (intervalConfidence * 0.4 + amountConsistency * 0.3 + transactionFrequency * 0.3)
-    );
-    
-    // Skip low confidence matches
-    if (confidence < 40) return;
-    
-    // Match with known providers
-    const providerMatch = Object.values(PROVIDERS).find(p => 
-      merchant.toLowerCase().includes(p.name.toLowerCase())
-    );
-    
-    // Check for duplicates in existing subscriptions
-    const duplicate = existingSubscriptions.find(sub => 
-      normalizeMerchant(sub.name).toLowerCase() === merchant.toLowerCase() ||
-      (sub.providerId && sub.providerId === providerMatch?.id)
-    );
-    
-    let reason = `${txs.length} transactions detected`;
-    if (duplicate) {
-      reason = `Existing subscription - price change detected`;
-    }
-    
-    // Calculate next payment date
-    const lastDate = new Date(dates[dates.length - 1]);
-    lastDate.setDate(lastDate.getDate() + intervalDays);
-    const nextPayment = lastDate.toISOString().split('T')[0];
-    
-    candidates.push({
-      subscription: {
-        name: providerMatch ? providerMatch.name : merchant.charAt(0).toUpperCase() + merchant.slice(1),
-        price: avgAmount,
-        currency: (txs[0].currency || "EUR") as any,
-        interval: interval as any,
-        providerId: providerMatch?.id,
-        category: providerMatch?.category || "Other",
-        startDate: dates[0],
-        nextPaymentDate: nextPayment,
-        paymentMethod: "Bank Transfer",
-        active: true,
-        status: "active" as any,
-        noticePeriodDays: providerMatch?.noticePeriodInfo ? 30 : 14,
-      },
-      confidence,
-      transactions: txs,
-      interval: interval as any,
-      intervalDays,
-      reason,
-    });
-  });
-  
-  // Sort by confidence (highest first)
-  return candidates.sort((a, b) => b.confidence - a.confidence);
+  return detectRecurringPayments(
+    transactions,
+    Object.values(PROVIDERS),
+    existingSubscriptions
+  ) as SubscriptionCandidate[];
 }
 
 // Parse CSV row to transaction
@@ -199,6 +46,8 @@ export function parseCSVRow(row: any, columnMapping: {
   description?: string;
   amount?: string;
   currency?: string;
+  creditorId?: string;
+  mandateReference?: string;
 }): ParsedTransaction | null {
   const dateCol = columnMapping.date || 'date' || 'Datum' || 'Date';
   const descCol = columnMapping.description || 'description' || 'Verwendungszweck' || 'Description' || 'Merchant';
@@ -224,6 +73,9 @@ export function parseCSVRow(row: any, columnMapping: {
     description,
     amount,
     currency,
+    // German exports often have separate SEPA columns
+    creditorId: (columnMapping.creditorId && row[columnMapping.creditorId]) || undefined,
+    mandateReference: (columnMapping.mandateReference && row[columnMapping.mandateReference]) || undefined,
     raw: row,
   };
 }
@@ -234,6 +86,8 @@ export function detectColumns(headers: string[]): {
   description?: string;
   amount?: string;
   currency?: string;
+  creditorId?: string;
+  mandateReference?: string;
 } {
   const mapping: any = {};
   
@@ -257,5 +111,14 @@ export function detectColumns(headers: string[]): {
   const currencyCol = headers.find(h => currencyPatterns.test(h));
   if (currencyCol) mapping.currency = currencyCol;
   
+  // SEPA direct debit patterns
+  const creditorPatterns = /^(gläubiger-?\s?id|glaeubiger-?\s?id|creditor id|creditor identifier)$/i;
+  const creditorCol = headers.find(h => creditorPatterns.test(h));
+  if (creditorCol) mapping.creditorId = creditorCol;
+  
+  const mandatePatterns = /^(mandatsreferenz|mandate reference|mandatsref)$/i;
+  const mandateCol = headers.find(h => mandatePatterns.test(h));
+  if (mandateCol) mapping.mandateReference = mandateCol;
+  
   return mapping;
 }
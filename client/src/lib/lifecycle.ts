@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from "react";
+import { SubscriptionEvent } from "./types";
+import { useAuth } from "@/lib/auth";
+import { api } from "@/lib/api";
+
+// Status timeline of one subscription (server only - guests have no history)
+export function useSubscriptionEvents(subscriptionId: string | undefined) {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<SubscriptionEvent[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!user || !subscriptionId) {
+      setEvents([]);
+      return;
+    }
+    try {
+      setEvents(await api.getSubscriptionEvents(subscriptionId));
+    } catch (e) {
+      console.error("Fetch subscription events error:", e);
+    }
+  }, [user, subscriptionId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { events, refresh };
+}
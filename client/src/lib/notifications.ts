@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from "react";
+import { AppNotification } from "./types";
+import { useAuth } from "@/lib/auth";
+import { api } from "@/lib/api";
+
+// Re-check for new reminders while the app stays open
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+export function useNotifications() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  // FETCH DATA (server only - reminders are created by the server scheduler)
+  const fetchNotifications = useCallback(async () => {
+    if (!user) {
+      setNotifications([]);
+      return;
+    }
+    try {
+      setNotifications(await api.getNotifications());
+    } catch (e) {
+      console.error("Fetch notifications error:", e);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchNotifications();
+    if (!user) return;
+    const timer = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchNotifications, user]);
+
+  // ACTIONS
+  const markRead = async (id: string) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => n.id === id ? { ...n, readAt } : n));
+    try {
+      await api.markNotificationRead(id);
+    } catch (e) {
+      console.error("Mark notification read error:", e);
+    }
+  };
+
+  const markAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => n.readAt ? n : { ...n, readAt }));
+    try {
+      await api.markAllNotificationsRead();
+    } catch (e) {
+      console.error("Mark all notifications read error:", e);
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.readAt).length,
+    refresh: fetchNotifications,
+    markRead,
+    markAllRead,
+  };
+}
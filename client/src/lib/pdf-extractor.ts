@@ -1,10 +1,12 @@
 import { createWorker } from 'tesseract.js';
+import type { Direction } from '@shared/direction';
 
 export interface PDFTransaction {
   date: string;
   description: string;
   amount: number;
   currency: string;
+  direction?: Direction;
   raw: string;
 }
 
@@ -20,12 +22,23 @@ export async function extractTextFromImage(imageData: string): Promise<string> {
   }
 }
 
+// Single-provider invoice matched to a tracked subscription
+export interface PDFInvoiceMatch {
+  subscriptionId: string;
+  subscriptionName: string;
+  date: string | null;
+  amount: number | null;
+  currency: string;
+}
+
 // Parse PDF on server via API
 export async function parsePDFFile(file: File): Promise<{
   transactions: PDFTransaction[];
   isScanned: boolean;
   rawText: string;
   numPages: number;
+  bank?: string | null; // bank whose statement layout was recognized
+  invoice?: PDFInvoiceMatch | null;
 }> {
   const formData = new FormData();
   formData.append('pdf', file);
@@ -44,10 +57,16 @@ export async function parsePDFFile(file: File): Promise<{
   return response.json();
 }
 
-// Perform OCR on scanned PDF
-export async function performOCROnPDF(file: File, onProgress?: (progress: number) => void): Promise<string> {
-  // For now, we'll use the server-side approach
-  // Client-side OCR would require converting PDF pages to images first
+export interface OCRResult {
+  text: string;
+  transactions: PDFTransaction[];
+  bank: string | null;
+  invoice: PDFInvoiceMatch | null;
+}
+
+// OCR a scanned PDF on the server. The response streams one JSON line per
+// recognized page ({"type":"progress","page","pages"}) before the result.
+export async function performOCROnPDF(file: File, onProgress?: (page: number, pages: number) => void): Promise<OCRResult> {
   const formData = new FormData();
   formData.append('pdf', file);
   
@@ -57,11 +76,30 @@ export async function performOCROnPDF(file: File, onProgress?: (progress: number
     credentials: 'include',
   });
   
-  if (!response.ok) {
+  if (!response.ok || !response.body) {
     const error = await response.json();
-    throw new Error(error.error || 'OCR failed');
+    throw new Error(error.error || error.message || 'OCR failed');
+  }
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines.filter(Boolean)) {
+      const message = JSON.parse(line);
+      if (message.type === 'progress') onProgress?.(message.page, message.pages);
+      if (message.type === 'error') throw new Error(message.error);
+      if (message.type === 'result') return message as OCRResult;
+    }
+    
+    if (done) break;
   }
   
-  const data = await response.json();
-  return data.text;
+  throw new Error('OCR ended without a result');
 }
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from "react";
+import { Subscription, SubscriptionDocument, SafeboxUsage } from "./types";
+import { useAuth } from "@/lib/auth";
+import { api } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+
+// Files stored with one subscription (server only - guests keep no files)
+export function useSafebox(subscription: Subscription | undefined) {
+  const { user } = useAuth();
+  const [documents, setDocuments] = useState<SubscriptionDocument[]>([]);
+  const [usage, setUsage] = useState<SafeboxUsage | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    setDocuments(subscription?.documents ?? []);
+  }, [subscription?.id]);
+
+  const refreshUsage = useCallback(async () => {
+    if (!user) {
+      setUsage(null);
+      return;
+    }
+    try {
+      setUsage(await api.getSafeboxUsage());
+    } catch (e) {
+      console.error("Fetch Safebox usage error:", e);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage]);
+
+  const upload = async (file: File, type: string, notes?: string) => {
+    if (!subscription) return;
+    setUploading(true);
+    try {
+      const document = await api.uploadDocument(subscription.id, file, { type, notes });
+      setDocuments(prev => [...prev, document]);
+      toast({ title: "Document Stored", description: document.name });
+      refreshUsage();
+    } catch (e: any) {
+      toast({ title: "Upload Failed", description: e.message, variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const remove = async (documentId: string) => {
+    if (!subscription) return;
+    try {
+      await api.deleteDocument(subscription.id, documentId);
+      setDocuments(prev => prev.filter(doc => doc.id !== documentId));
+      refreshUsage();
+    } catch (e: any) {
+      toast({ title: "Delete Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  return { enabled: !!user, documents, usage, uploading, upload, remove };
+}
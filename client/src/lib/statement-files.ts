@@ -0,0 +1,251 @@
+import type { ParsedTransaction } from "@/lib/importer";
+
+// Structured bank statement files: ISO 20022 CAMT.053 (XML) and SWIFT MT940.
+// Unlike CSV exports they have a fixed layout, carry the booking direction and,
+// for SEPA direct debits, the creditor ID and mandate reference. Amounts come out
+// signed like CSV exports (negative = money out).
+
+export type StatementFileFormat = "camt" | "mt940";
+
+// Decided from the file name and the first few KB of the file
+export function detectStatementFileFormat(fileName: string, head: string): StatementFileFormat | null {
+  if (/camt\.053|<BkToCstmrStmt/.test(head)) return "camt";
+  if (/\.(sta|mt940|940)$/i.test(fileName)) return "mt940";
+  if (/^:20:/m.test(head) && /^:(25|60F):/m.test(head)) return "mt940";
+  return null;
+}
+
+// German banks still export MT940 as ISO-8859-1 / Windows-1252
+async function readStatementText(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+}
+
+export async function parseStatementFile(file: File, format: StatementFileFormat): Promise<ParsedTransaction[]> {
+  const text = await readStatementText(file);
+  return format === "camt" ? parseCAMT053(text) : parseMT940(text);
+}
+
+const joinParts = (parts: Array<string | undefined>) =>
+  parts.map(part => part?.replace(/\s+/g, " ").trim()).filter(Boolean).join(" ");
+
+// ---- CAMT.053 ----
+
+// Elements are looked up by local name, so every camt.053.001.xx namespace works
+function child(el: Element | null | undefined, ...path: string[]): Element | null {
+  let current: Element | null = el ?? null;
+  for (const name of path) {
+    if (!current) return null;
+    current = Array.from(current.children).find(c => c.localName === name) ?? null;
+  }
+  return current;
+}
+
+function childText(el: Element | null | undefined, ...path: string[]): string | undefined {
+  return child(el, ...path)?.textContent?.trim() || undefined;
+}
+
+function children(el: Element | null | undefined, name: string): Element[] {
+  return el ? Array.from(el.children).filter(c => c.localName === name) : [];
+}
+
+function descendants(el: Element | Document, name: string): Element[] {
+  return Array.from(el.getElementsByTagNameNS("*", name));
+}
+
+function camtDate(el: Element): string | undefined {
+  const date = childText(el, "BookgDt", "Dt") ?? childText(el, "BookgDt", "DtTm")
+    ?? childText(el, "ValDt", "Dt") ?? childText(el, "ValDt", "DtTm");
+  return date?.slice(0, 10);
+}
+
+// Parties are <Cdtr><Nm> up to camt.053.001.07 and <Cdtr><Pty><Nm> since .08
+function camtParty(related: Element | null, role: string): Element | null {
+  const party = child(related, role);
+  return child(party, "Pty") ?? party;
+}
+
+// The SEPA creditor identifier sits in the creditor's private ID, scheme "SEPA"
+function camtCreditorId(creditor: Element | null): string | undefined {
+  const others = children(child(creditor, "Id", "PrvtId"), "Othr");
+  const sepa = others.find(other => childText(other, "SchmeNm", "Prtry")?.toUpperCase() === "SEPA");
+  return childText(sepa ?? others[0], "Id");
+}
+
+export function parseCAMT053(xml: string): ParsedTransaction[] {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The CAMT file is not valid XML");
+  }
+
+  const transactions: ParsedTransaction[] = [];
+
+  for (const statement of descendants(doc, "Stmt")) {
+    const accountCurrency = childText(statement, "Acct", "Ccy");
+
+    for (const entry of children(statement, "Ntry")) {
+      // Only booked entries - pending ones can still change or disappear
+      const status = childText(entry, "Sts", "Cd") ?? childText(entry, "Sts");
+      if (status && status !== "BOOK") continue;
+
+      const date = camtDate(entry);
+      if (!date) continue;
+
+      const details = children(entry, "NtryDtls").flatMap(d => children(d, "TxDtls"));
+      // Batch bookings list their transactions; plain entries have one or none
+      const parts = details.length > 0 ? details : [null];
+
+      for (const tx of parts) {
+        const amountEl = child(tx, "Amt") ?? child(tx, "AmtDtls", "TxAmt", "Amt")
+          ?? (parts.length === 1 ? child(entry, "Amt") : null);
+        const amount = parseFloat(amountEl?.textContent ?? "");
+        if (isNaN(amount)) continue;
+
+        const indicator = childText(tx, "CdtDbtInd") ?? childText(entry, "CdtDbtInd");
+        const direction = indicator === "DBIT" ? "debit" : "credit";
+
+        const related = child(tx, "RltdPties");
+        const creditor = camtParty(related, "Cdtr");
+        const debtor = camtParty(related, "Dbtr");
+        const counterparty = direction === "debit" ? creditor : debtor;
+
+        const remittance = descendants(tx ?? entry, "Ustrd").map(el => el.textContent ?? "").join(" ");
+        const description = joinParts([childText(counterparty, "Nm"), remittance]) || joinParts([childText(entry, "AddtlNtryInf")]);
+        if (!description) continue;
+
+        transactions.push({
+          date,
+          description,
+          amount: direction === "debit" ? -Math.abs(amount) : Math.abs(amount),
+          currency: amountEl?.getAttribute("Ccy") ?? accountCurrency ?? "EUR",
+          direction,
+          // The account holder is the creditor of incoming payments, so only debits name one
+          creditorName: direction === "debit" ? childText(creditor, "Nm") : undefined,
+          creditorId: camtCreditorId(creditor),
+          mandateReference: childText(tx, "Refs", "MndtId"),
+          raw: {
+            format: "camt.053",
+            entryReference: childText(entry, "NtryRef") ?? childText(entry, "AcctSvcrRef"),
+            endToEndId: childText(tx, "Refs", "EndToEndId"),
+            bookingText: childText(entry, "AddtlNtryInf"),
+          },
+        });
+      }
+    }
+  }
+
+  return transactions;
+}
+
+// ---- MT940 ----
+
+// Tags German banks put into the :86: purpose of SEPA bookings
+const SEPA_TAGS = /(EREF|KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE|IBAN|BIC|COAM|OAMT)\+/g;
+
+function sepaTags(purpose: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  const matches = Array.from(purpose.matchAll(SEPA_TAGS));
+  matches.forEach((match, i) => {
+    const start = match.index! + match[0].length;
+    const end = i + 1 < matches.length ? matches[i + 1].index! : purpose.length;
+    tags[match[1]] = purpose.slice(start, end).trim();
+  });
+  return tags;
+}
+
+// Fields start with ":tag:" at the beginning of a line; other lines continue the field before
+function mt940Fields(text: string): Array<{ tag: string; value: string }> {
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const line of text.split(/\r?\n/)) {
+    const start = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (start) {
+      fields.push({ tag: start[1], value: start[2] });
+    } else if (fields.length > 0 && line !== "-" && !line.startsWith("{")) {
+      fields[fields.length - 1].value += line;
+    }
+  }
+  return fields;
+}
+
+// :86: with German structure: "105?00SEPA-LASTSCHRIFT?20...?32NAME"
+function mt940Details(value: string): { bookingText?: string; purpose: string; name?: string } {
+  if (!/^\d{3}\?/.test(value)) return { purpose: value.trim() };
+
+  const subfields: Record<string, string> = {};
+  for (const part of value.slice(3).split("?").slice(1)) {
+    const code = part.slice(0, 2);
+    subfields[code] = (subfields[code] ?? "") + part.slice(2);
+  }
+  // Purpose lines are cut at a fixed width, often mid-word, so they are joined as-is
+  const purposeCodes = ["20", "21", "22", "23", "24", "25", "26", "27", "28", "29", "60", "61", "62", "63"];
+  return {
+    bookingText: subfields["00"]?.trim() || undefined,
+    purpose: purposeCodes.map(code => subfields[code] ?? "").join("").trim(),
+    name: joinParts([subfields["32"], subfields["33"]]) || undefined,
+  };
+}
+
+// :61:2610011001D12,99NDDTNONREF - value date, optional booking date (MMDD), mark, amount
+const STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{2})?(\d{2})?(R?[CD])[A-Z]?(\d+,\d*)/;
+
+export function parseMT940(text: string): ParsedTransaction[] {
+  const transactions: ParsedTransaction[] = [];
+  let currency = "EUR";
+  let pending: ParsedTransaction | null = null;
+
+  const flush = () => {
+    if (pending?.description) transactions.push(pending);
+    pending = null;
+  };
+
+  for (const { tag, value } of mt940Fields(text)) {
+    if (tag === "20") {
+      flush();
+    } else if (tag === "60F" || tag === "60M") {
+      currency = value.match(/^[CD]\d{6}([A-Z]{3})/)?.[1] ?? currency;
+    } else if (tag === "61") {
+      flush();
+      const match = value.match(STATEMENT_LINE);
+      if (!match) continue;
+
+      const [, yy, mm, dd, bookingMonth, bookingDay, mark, amountText] = match;
+      let year = 2000 + parseInt(yy);
+      // A booking date in January for a December value date belongs to the next year
+      if (bookingMonth && bookingDay) {
+        if (bookingMonth === "01" && mm === "12") year += 1;
+        if (bookingMonth === "12" && mm === "01") year -= 1;
+      }
+      const date = `${year}-${bookingMonth ?? mm}-${bookingDay ?? dd}`;
+
+      // RC reverses a credit (money out), RD reverses a debit (money back)
+      const direction = mark === "D" || mark === "RC" ? "debit" : "credit";
+      const amount = parseFloat(amountText.replace(",", "."));
+
+      pending = {
+        date,
+        description: "",
+        amount: direction === "debit" ? -amount : amount,
+        currency,
+        direction,
+        raw: { format: "mt940", statementLine: value },
+      };
+    } else if (tag === "86" && pending) {
+      const details = mt940Details(value);
+      const tags = sepaTags(details.purpose);
+      const purpose = tags.SVWZ ?? (Object.keys(tags).length > 0 ? "" : details.purpose);
+
+      pending.description = joinParts([details.name, purpose]) || joinParts([details.bookingText]);
+      pending.creditorName = pending.direction === "debit" ? details.name : undefined;
+      pending.creditorId = tags.CRED || undefined;
+      pending.mandateReference = tags.MREF || undefined;
+      pending.raw = { ...pending.raw, details: value, bookingText: details.bookingText };
+    }
+  }
+  flush();
+
+  return transactions;
+}
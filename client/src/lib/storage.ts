@@ -4,6 +4,8 @@ import { toast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
 import { api } from "@/lib/api";
 import { LocalApi } from "@/lib/api-adapter";
+import { rollNextPaymentDate, todayISO } from "@shared/billing-dates";
+import { automaticTransition, canTransition, isActiveStatus, STATUS_LABELS, type SubscriptionStatus } from "@shared/lifecycle";
 
 export function useSubscriptions() {
   const { user } = useAuth();
@@ -22,9 +24,17 @@ export function useSubscriptions() {
         const data = await api.getSubscriptions();
         setSubscriptions(data);
       } else {
-        // LOCAL MODE - Guest/Offline
+        // LOCAL MODE - Guest/Offline (server applies due status changes and rolls dates on read; do the same locally)
+        const today = todayISO();
         const localData = LocalApi.list();
-        setSubscriptions(localData);
+        const rolled = localData.map(sub => {
+          const changed = { ...sub, ...automaticTransition(sub, today)?.changes } as Subscription;
+          return { ...changed, nextPaymentDate: rollNextPaymentDate(changed, today) };
+        });
+        if (rolled.some((sub, i) => sub.nextPaymentDate !== localData[i].nextPaymentDate || sub.status !== localData[i].status)) {
+          LocalApi.save(rolled);
+        }
+        setSubscriptions(rolled);
       }
     } catch (e: any) {
       console.error("Fetch error:", e);
@@ -62,17 +72,20 @@ export function useSubscriptions() {
     }
   };
 
-  const updateSubscription = async (id: string, updates: Partial<Subscription>) => {
+  const updateSubscription = async (id: string, updates: Partial<Subscription> & { statusNote?: string }) => {
     const prevSubs = [...subscriptions];
     const target = subscriptions.find(s => s.id === id);
     if (!target) return;
 
-    const updatedSub = { ...target, ...updates };
+    const { statusNote: _note, ...fields } = updates;
+    const updatedSub = { ...target, ...fields };
     setSubscriptions(prev => prev.map(s => s.id === id ? updatedSub : s));
 
     try {
       if (user) {
-        await api.updateSubscription(id, updates);
+        // The server may adjust derived fields (e.g. `active` from the status)
+        const saved = await api.updateSubscription(id, updates);
+        setSubscriptions(prev => prev.map(s => s.id === id ? saved : s));
       } else {
         LocalApi.update(updatedSub);
       }
@@ -100,9 +113,52 @@ export function useSubscriptions() {
     }
   };
 
-  const cancelSubscription = (id: string) => {
-    const today = new Date().toISOString().split("T")[0];
-    updateSubscription(id, { active: false, cancellationDate: today });
+  // Move a subscription along its lifecycle (see @shared/lifecycle)
+  const changeStatus = async (id: string, status: SubscriptionStatus, changes: Partial<Subscription> = {}, statusNote?: string) => {
+    const target = subscriptions.find(s => s.id === id);
+    if (!target) return;
+    if (!canTransition(target.status, status)) {
+      toast({
+        title: "Not Possible",
+        description: `${STATUS_LABELS[target.status]} subscriptions cannot become ${STATUS_LABELS[status].toLowerCase()}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    await updateSubscription(id, { ...changes, status, active: isActiveStatus(status), statusNote });
+  };
+
+  // Pause now or schedule a pause; a pause without an end runs until resumed by hand
+  const pauseSubscription = (id: string, pauseStartDate: string, pauseEndDate: string | null) => {
+    const target = subscriptions.find(s => s.id === id);
+    if (!target) return;
+
+    const today = todayISO();
+    const startsNow = pauseStartDate <= today;
+    const pause = { pauseStartDate, pauseEndDate };
+    const nextPaymentDate = rollNextPaymentDate({ ...target, ...pause, status: startsNow ? "paused" : target.status }, today);
+    return startsNow
+      ? changeStatus(id, "paused", { ...pause, nextPaymentDate })
+      : updateSubscription(id, { ...pause, nextPaymentDate });
+  };
+
+  // End the pause today; billing continues with the next date on the schedule
+  const resumeSubscription = (id: string) => {
+    const target = subscriptions.find(s => s.id === id);
+    if (!target) return;
+
+    const today = todayISO();
+    const changes = { pauseEndDate: today };
+    const nextPaymentDate = rollNextPaymentDate({ ...target, ...changes, status: "active", active: true }, today);
+    return changeStatus(id, "active", { ...changes, nextPaymentDate });
+  };
+
+  // Cancelled subscriptions keep running until the contract ends
+  const cancelSubscription = (id: string, contractEndDate?: string) => {
+    const today = todayISO();
+    return contractEndDate && contractEndDate >= today
+      ? changeStatus(id, "pending_cancellation", { cancellationDate: contractEndDate })
+      : changeStatus(id, "cancelled", { cancellationDate: today });
   };
 
   // MIGRATION TOOL
@@ -149,6 +205,9 @@ export function useSubscriptions() {
     addSubscription,
     updateSubscription,
     removeSubscription,
+    changeStatus,
+    pauseSubscription,
+    resumeSubscription,
     cancelSubscription,
     exportData,
     migrateLocalToServer
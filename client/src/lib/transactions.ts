@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from "react";
+import { ImportedTransaction, TransactionStatusFilter, PaymentSummary, PriceChange } from "./types";
+import type { PaymentHistory } from "@shared/payment-history";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { api } from "@/lib/api";
+
+export function useTransactions(filters: { status?: TransactionStatusFilter; search?: string } = {}) {
+  const { user } = useAuth();
+  const [transactions, setTransactions] = useState<ImportedTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { status, search } = filters;
+
+  // FETCH DATA (server only - guests have no stored imports)
+  const fetchTransactions = useCallback(async () => {
+    if (!user) {
+      setTransactions([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await api.getTransactions({ status, search });
+      setTransactions(data);
+    } catch (e: any) {
+      console.error("Fetch transactions error:", e);
+      setError(e.message || "Network error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, status, search]);
+
+  useEffect(() => {
+    fetchTransactions();
+  }, [fetchTransactions]);
+
+  // Replace a row with the server's version, dropping it if it no longer matches the filter
+  const applyUpdate = (updated: ImportedTransaction) => {
+    const matches =
+      status === undefined || status === "all" ||
+      (status === "ignored" && updated.ignored) ||
+      (status === "linked" && !updated.ignored && !!updated.subscriptionId) ||
+      (status === "unlinked" && !updated.ignored && !updated.subscriptionId);
+
+    setTransactions(prev => matches
+      ? prev.map(t => t.id === updated.id ? updated : t)
+      : prev.filter(t => t.id !== updated.id)
+    );
+  };
+
+  // ACTIONS
+  const linkTransaction = async (id: string, subscriptionId: string) => {
+    try {
+      applyUpdate(await api.linkTransaction(id, subscriptionId));
+      toast({ title: "Linked", duration: 1500 });
+    } catch (e: any) {
+      toast({ title: "Link Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  const unlinkTransaction = async (id: string) => {
+    try {
+      applyUpdate(await api.unlinkTransaction(id));
+      toast({ title: "Unlinked", duration: 1500 });
+    } catch (e: any) {
+      toast({ title: "Unlink Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  const ignoreTransaction = async (id: string, ignored = true) => {
+    try {
+      applyUpdate(await api.ignoreTransaction(id, ignored));
+      toast({
+        title: ignored ? "Ignored" : "Restored",
+        description: ignored ? "This row will be skipped in future detection." : undefined,
+        duration: 1500,
+      });
+    } catch (e: any) {
+      toast({ title: "Update Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  return {
+    transactions,
+    loading,
+    error,
+    refresh: fetchTransactions,
+    linkTransaction,
+    unlinkTransaction,
+    ignoreTransaction,
+  };
+}
+
+// Totals per subscription for the dashboard cards
+export function usePaymentSummary() {
+  const { user } = useAuth();
+  const [summary, setSummary] = useState<Record<string, PaymentSummary>>({});
+
+  useEffect(() => {
+    if (!user) {
+      setSummary({});
+      return;
+    }
+    api.getPaymentSummary()
+      .then(setSummary)
+      .catch(e => console.error("Fetch payment summary error:", e));
+  }, [user]);
+
+  return summary;
+}
+
+// Full charge history for one subscription
+export function usePaymentHistory(subscriptionId: string | undefined) {
+  const { user } = useAuth();
+  const [history, setHistory] = useState<PaymentHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !subscriptionId) {
+      setHistory(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    api.getPaymentHistory(subscriptionId)
+      .then(setHistory)
+      .catch((e: any) => setError(e.message || "Network error occurred"))
+      .finally(() => setLoading(false));
+  }, [user, subscriptionId]);
+
+  return { history, loading, error };
+}
+
+// Recent price changes keyed by subscription (newest change wins)
+export function useRecentPriceChanges(days = 90) {
+  const { user } = useAuth();
+  const [changes, setChanges] = useState<Record<string, PriceChange>>({});
+
+  useEffect(() => {
+    if (!user) {
+      setChanges({});
+      return;
+    }
+    api.getPriceChanges(days)
+      .then(list => {
+        const latest: Record<string, PriceChange> = {};
+        list.forEach(change => {
+          if (!latest[change.subscriptionId]) latest[change.subscriptionId] = change;
+        });
+        setChanges(latest);
+      })
+      .catch(e => console.error("Fetch price changes error:", e));
+  }, [user, days]);
+
+  return changes;
+}
+
+// Price timeline for one subscription (newest first)
+export function usePriceHistory(subscriptionId: string | undefined) {
+  const { user } = useAuth();
+  const [history, setHistory] = useState<PriceChange[]>([]);
+
+  useEffect(() => {
+    if (!user || !subscriptionId) {
+      setHistory([]);
+      return;
+    }
+    api.getPriceHistory(subscriptionId)
+      .then(setHistory)
+      .catch(e => console.error("Fetch price history error:", e));
+  }, [user, subscriptionId]);
+
+  return history;
+}
@@ -1,7 +1,11 @@
 import { z } from "zod";
+import { NOTICE_ANCHORS } from "@shared/contract-terms";
+import { INTERVAL_UNITS } from "@shared/billing-dates";
+import { SUBSCRIPTION_STATUSES } from "@shared/lifecycle";
+import type { Direction } from "@shared/direction";
 
 export const CURRENCIES = ["EUR", "USD", "GBP", "CHF"] as const;
-export const INTERVALS = ["monthly", "yearly", "weekly", "quarterly"] as const;
+export const INTERVALS = ["weekly", "biweekly", "monthly", "quarterly", "half-yearly", "yearly", "custom"] as const;
 export const PAYMENT_METHODS = ["Credit Card", "PayPal", "Bank Transfer", "Klarna", "Apple Pay", "Google Pay", "Crypto", "Other"] as const;
 export const CATEGORIES = ["Entertainment", "Utilities", "Software", "Health", "Insurance", "Education", "Telecommunication", "Gym", "Other"] as const;
 
@@ -12,15 +16,30 @@ export const subscriptionSchema = z.object({
   price: z.number().min(0, "Price must be positive"),
   currency: z.enum(CURRENCIES).default("EUR"),
   interval: z.enum(INTERVALS).default("monthly"),
+  intervalCount: z.number().int().min(1, "Must be at least 1").default(1), // used when interval is "custom"
+  intervalUnit: z.enum(INTERVAL_UNITS).default("month"),
   startDate: z.string(), // ISO date string
   nextPaymentDate: z.string(), // ISO date string
   noticePeriodDays: z.number().min(0).default(30),
+  minimumTermMonths: z.number().int().min(0).default(0),
+  renewalTermMonths: z.number().int().min(1).nullish(),
+  noticeAnchor: z.enum(NOTICE_ANCHORS).default("term_end"),
+  reminderLeadDays: z.number().int().min(0).default(7),
   paymentMethod: z.enum(PAYMENT_METHODS).default("Other"),
   category: z.enum(CATEGORIES).default("Other"),
   notes: z.string().optional(),
+  // SEPA direct debit, learned from imported transactions
+  creditorId: z.string().nullish(),
+  mandateReference: z.string().nullish(),
   active: z.boolean().default(true),
-  cancellationDate: z.string().optional(),
-  status: z.enum(["active", "cancelled", "pending_cancellation", "expired"]).default("active"),
+  cancellationDate: z.string().nullish(), // day a cancellation takes (or took) effect
+  pauseStartDate: z.string().nullish(), // first paused day
+  pauseEndDate: z.string().nullish(), // day billing resumes, empty = until resumed
+  status: z.enum(SUBSCRIPTION_STATUSES).default("active"), // source of truth; `active` follows it
+  
+  // Free trial: converts into the paid plan at priceAfterTrial on trialEndDate
+  trialEndDate: z.string().nullish(),
+  priceAfterTrial: z.number().min(0, "Price must be positive").nullish(),
   
   // Safebox feature
   documents: z.array(z.object({
@@ -29,11 +48,113 @@ export const subscriptionSchema = z.object({
     type: z.enum(["contract", "confirmation", "invoice", "other"]),
     date: z.string(),
     notes: z.string().optional(),
-    status: z.enum(["uploaded", "verified", "rejected"]).default("uploaded")
+    status: z.enum(["uploaded", "verified", "rejected"]).default("uploaded"),
+    amount: z.number().optional(), // e.g. an invoice total
+    currency: z.string().optional(),
+    // Set when a file is stored in the Safebox (server only)
+    mimeType: z.string().optional(),
+    size: z.number().optional(),
+    uploadedAt: z.string().optional(),
   })).default([]),
 });
 
 export type Subscription = z.infer<typeof subscriptionSchema>;
+export type SubscriptionDocument = Subscription["documents"][number];
+
+// Bytes stored in the Safebox against the per-user limit
+export interface SafeboxUsage {
+  used: number;
+  quota: number;
+}
+
+// Stored bank transaction from an import (amount in major units, e.g. euros)
+export interface ImportedTransaction {
+  id: string;
+  importJobId: string | null;
+  date: string;
+  description: string;
+  amount: number;
+  currency: string;
+  direction: Direction;
+  refundOfId: string | null; // refunds point at the charge they pay back
+  creditorId: string | null;
+  mandateReference: string | null;
+  normalizedMerchant: string | null;
+  subscriptionId: string | null;
+  ignored: boolean;
+}
+
+// Per-subscription totals from linked transactions
+export interface PaymentSummary {
+  totalPaid: number;
+  paymentCount: number;
+  missedCount: number;
+  lastExpectedMissed: boolean; // the latest expected charge is missing
+  extraCount: number;
+  lastPaymentDate: string | null;
+}
+
+// Dated price change of a subscription (prices in major units)
+export interface PriceChange {
+  id: string;
+  subscriptionId: string;
+  date: string;
+  oldPrice: number;
+  newPrice: number;
+  currency: string;
+  source: "import" | "manual";
+}
+
+// Status change in a subscription's timeline
+export interface SubscriptionEvent {
+  id: string;
+  subscriptionId: string;
+  fromStatus: typeof SUBSCRIPTION_STATUSES[number] | null;
+  toStatus: typeof SUBSCRIPTION_STATUSES[number];
+  source: "user" | "system";
+  note: string | null;
+  createdAt: string;
+}
+
+// In-app notification (e.g. an upcoming cancellation deadline)
+export interface AppNotification {
+  id: string;
+  subscriptionId: string | null;
+  type: "cancellation_deadline" | "trial_ending";
+  title: string;
+  message: string;
+  dueDate: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// Subscribable ICS feed (url is relative to the app origin)
+export interface CalendarFeed {
+  url: string;
+  createdAt: string;
+  lastAccessedAt: string | null;
+}
+
+// Exchange rate in ECB convention: units of `currency` per 1 EUR
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: number;
+  date: string;
+  source: "manual" | "ecb";
+}
+
+// Spending analytics in the user's base currency (amounts in major units)
+export interface SpendingAnalytics {
+  baseCurrency: string;
+  history: Array<{ month: string; total: number }>;
+  forecast: Array<{ month: string; total: number }>;
+  byCategory: Array<{ name: string; monthly: number }>;
+  byPaymentMethod: Array<{ name: string; monthly: number }>;
+  unconvertedCurrencies: string[];
+}
+
+export type TransactionStatusFilter = "all" | "linked" | "unlinked" | "ignored";
 
 export interface ProviderData {
   id: string;
@@ -53,9 +174,14 @@ export const defaultSubscription: Omit<Subscription, "id"> = {
   price: 0,
   currency: "EUR",
   interval: "monthly",
+  intervalCount: 1,
+  intervalUnit: "month",
   startDate: new Date().toISOString().split("T")[0],
   nextPaymentDate: new Date().toISOString().split("T")[0],
   noticePeriodDays: 30,
+  minimumTermMonths: 0,
+  noticeAnchor: "term_end",
+  reminderLeadDays: 7,
   paymentMethod: "Credit Card",
   category: "Other",
   active: true,
@@ -0,0 +1,201 @@
+import { useState, useMemo } from "react";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { useAnalytics } from "@/lib/analytics";
+import { formatMoney } from "@/lib/currency";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { BarChart3, TrendingUp, CalendarClock, AlertCircle, RefreshCw } from "lucide-react";
+
+const PALETTE = ["var(--chart-1)", "var(--chart-2)", "var(--chart-3)", "var(--chart-4)", "var(--chart-5)"];
+
+const trendConfig = {
+  spent: { label: "Spent", color: "hsl(var(--chart-1))" },
+  forecast: { label: "Forecast", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+// Chart config keys become CSS variables (--color-<key>), so names need a safe key
+const withKeys = (list: Array<{ name: string; monthly: number }>) =>
+  list.map(share => ({ ...share, key: share.name.toLowerCase().replace(/[^a-z0-9]+/g, "-") }));
+
+// One config entry per slice so tooltips and legends get labels and colors
+function shareConfig(list: Array<{ name: string; key: string }>): ChartConfig {
+  return Object.fromEntries(list.map((share, i) => [
+    share.key,
+    { label: share.name, color: `hsl(${PALETTE[i % PALETTE.length]})` },
+  ]));
+}
+
+const monthLabel = (month: string) => format(parseISO(`${month}-01`), "MMM yy");
+
+export default function Analytics() {
+  const [months, setMonths] = useState(24);
+  const { analytics, loading, error } = useAnalytics(months);
+
+  const trendData = useMemo(() => {
+    if (!analytics) return [];
+    return [
+      ...analytics.history.map(m => ({ month: monthLabel(m.month), spent: m.total })),
+      ...analytics.forecast.map(m => ({ month: monthLabel(m.month), forecast: m.total })),
+    ];
+  }, [analytics]);
+
+  if (error) return <div className="p-8 text-center text-red-500">
+    <h3 className="text-lg font-bold">Error loading analytics</h3>
+    <p>{error}</p>
+    <Button variant="outline" className="mt-4" onClick={() => window.location.reload()}>Retry</Button>
+  </div>;
+
+  if (loading || !analytics) return <div className="p-8 flex flex-col items-center justify-center min-h-[50vh] animate-in fade-in">
+    <RefreshCw className="h-8 w-8 text-primary animate-spin mb-4" />
+    <p className="text-muted-foreground">Crunching your spending...</p>
+  </div>;
+
+  const currency = analytics.baseCurrency;
+  const money = (value: unknown) => formatMoney(Number(value), currency);
+
+  const lastYear = analytics.history.slice(-12);
+  const averageMonthly = lastYear.length > 0 ? lastYear.reduce((sum, m) => sum + m.total, 0) / lastYear.length : 0;
+  const forecastTotal = analytics.forecast.reduce((sum, m) => sum + m.total, 0);
+
+  const byCategory = withKeys(analytics.byCategory);
+  const byPaymentMethod = withKeys(analytics.byPaymentMethod);
+  const categoryConfig = shareConfig(byCategory);
+  const methodConfig = shareConfig(byPaymentMethod);
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-heading font-bold tracking-tight">Analytics</h1>
+          <p className="text-muted-foreground">Where your money goes, month by month, in {currency}.</p>
+        </div>
+        <Select value={String(months)} onValueChange={v => setMonths(parseInt(v))}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="12">Last 12 months</SelectItem>
+            <SelectItem value="24">Last 24 months</SelectItem>
+            <SelectItem value="60">Last 5 years</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {analytics.unconvertedCurrencies.length > 0 && (
+        <div className="p-4 bg-orange-500/10 border border-orange-500/20 rounded-lg text-orange-600 dark:text-orange-400 text-sm flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 shrink-0" />
+          <p>
+            Subscriptions in {analytics.unconvertedCurrencies.join(", ")} are left out because there is no exchange rate.{" "}
+            <Link href="/settings" className="underline">Add a rate</Link>
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+          <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <TrendingUp className="h-4 w-4" /> Average per Month
+          </h3>
+          <div className="text-4xl font-bold mt-2 tracking-tight">{formatMoney(averageMonthly, currency)}</div>
+          <p className="text-xs text-muted-foreground mt-1">over the last {lastYear.length} months</p>
+        </div>
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+          <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" /> Next 12 Months
+          </h3>
+          <div className="text-4xl font-bold mt-2 tracking-tight">{formatMoney(forecastTotal, currency, 0)}</div>
+          <p className="text-xs text-muted-foreground mt-1">if nothing changes</p>
+        </div>
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><BarChart3 className="h-5 w-5" /> Spend Over Time</CardTitle>
+          <CardDescription>Charges per month, followed by the 12-month forecast.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={trendConfig} className="h-[300px] w-full aspect-auto">
+            <BarChart data={trendData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={v => formatMoney(v, currency, 0)} />
+              <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => (
+                <span>{trendConfig[name as keyof typeof trendConfig]?.label}: <span className="font-mono">{money(value)}</span></span>
+              )} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="spent" stackId="spend" fill="var(--color-spent)" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="forecast" stackId="spend" fill="var(--color-forecast)" radius={[4, 4, 0, 0]} fillOpacity={0.6} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle>By Category</CardTitle>
+            <CardDescription>Monthly cost of active subscriptions.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {byCategory.length > 0 ? (
+              <ChartContainer config={categoryConfig} className="h-[280px] w-full aspect-auto">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="key" formatter={(value, _name, item) => (
+                    <span>{item.payload.name}: <span className="font-mono">{money(value)}</span></span>
+                  )} />} />
+                  <Pie data={byCategory} dataKey="monthly" nameKey="key" innerRadius={50} outerRadius={90} paddingAngle={3}>
+                    {byCategory.map(entry => (
+                      <Cell key={entry.key} fill={`var(--color-${entry.key})`} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+                </PieChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-sm text-muted-foreground">No upcoming charges.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle>By Payment Method</CardTitle>
+            <CardDescription>Monthly cost of active subscriptions.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {byPaymentMethod.length > 0 ? (
+              <ChartContainer config={methodConfig} className="h-[280px] w-full aspect-auto">
+                <BarChart data={byPaymentMethod} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={v => formatMoney(v, currency, 0)} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={100} />
+                  <ChartTooltip content={<ChartTooltipContent nameKey="key" hideIndicator formatter={(value, _name, item) => (
+                    <span>{item.payload.name}: <span className="font-mono">{money(value)}</span></span>
+                  )} />} />
+                  <Bar dataKey="monthly" radius={[0, 4, 4, 0]}>
+                    {byPaymentMethod.map(entry => (
+                      <Cell key={entry.key} fill={`var(--color-${entry.key})`} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-sm text-muted-foreground">No upcoming charges.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,13 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { CheckCircle2, Copy, ExternalLink, AlertTriangle, ArrowLeft, ArrowRight, Download, Mail } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { format, addDays } from "date-fns";
+import { format, parseISO } from "date-fns";
 import confetti from "canvas-confetti";
 import { PROVIDERS } from "@/data/providers";
-import { calculateCancellationDate, generateCancellationPDF } from "@/lib/generators";
+import { generateCancellationPDF } from "@/lib/generators";
+import { calculateCancellationDeadline } from "@shared/contract-terms";
+import { addDays } from "@shared/billing-dates";
+import { isTrial } from "@shared/trials";
 
 export default function CancellationFlow() {
   const [, params] = useRoute("/cancel/:id");
@@ -44,11 +47,11 @@ export default function CancellationFlow() {
     "If no online option, you may need to email them.",
   ];
 
-  const calculatedCancelDate = calculateCancellationDate(
-    subscription.startDate, 
-    subscription.noticePeriodDays, 
-    subscription.interval
-  );
+  // A trial has to be cancelled before the day it converts into the paid plan
+  const trialLastDay = isTrial(subscription) ? addDays(subscription.trialEndDate, -1) : null;
+  const deadline = trialLastDay
+    ? { lastCancellationDate: trialLastDay, contractEndDate: trialLastDay }
+    : calculateCancellationDeadline(subscription);
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -57,7 +60,7 @@ export default function CancellationFlow() {
 
   const handleFinish = () => {
     if (id) {
-      cancelSubscription(id);
+      cancelSubscription(id, deadline.contractEndDate);
       confetti({
         particleCount: 100,
         spread: 70,
@@ -92,8 +95,11 @@ ${user?.name || "Customer"}`;
           <CardContent className="p-4 flex items-center gap-4">
              <AlertTriangle className="h-8 w-8 text-orange-500" />
              <div>
-               <p className="text-sm font-medium text-orange-600 dark:text-orange-400">Notice Period</p>
-               <p className="text-lg font-bold">{subscription.noticePeriodDays} Days</p>
+               <p className="text-sm font-medium text-orange-600 dark:text-orange-400">Cancel By</p>
+               <p className="text-lg font-bold">{format(parseISO(deadline.lastCancellationDate), "MMM d, yyyy")}</p>
+               <p className="text-xs text-muted-foreground">
+                 {trialLastDay ? "before the trial converts" : `${subscription.noticePeriodDays} days notice`}
+               </p>
              </div>
           </CardContent>
         </Card>
@@ -102,7 +108,7 @@ ${user?.name || "Customer"}`;
              <CheckCircle2 className="h-8 w-8 text-blue-500" />
              <div>
                <p className="text-sm font-medium text-blue-600 dark:text-blue-400">Earliest End Date</p>
-               <p className="text-lg font-bold">{format(calculatedCancelDate, "MMM d, yyyy")}</p>
+               <p className="text-lg font-bold">{format(parseISO(deadline.contractEndDate), "MMM d, yyyy")}</p>
              </div>
           </CardContent>
         </Card>
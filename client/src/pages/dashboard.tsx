@@ -3,19 +3,31 @@ import { SubscriptionCard } from "@/components/SubscriptionCard";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, Download, Calendar, Filter, Plus, Lightbulb, TrendingUp, Cloud, WifiOff, RefreshCw } from "lucide-react";
+import { Search, Download, Filter, Plus, Lightbulb, TrendingUp, Cloud, WifiOff, RefreshCw, Hourglass } from "lucide-react";
 import { useState, useMemo } from "react";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from "recharts";
 import { CATEGORIES } from "@/lib/types";
 import { Link } from "wouter";
 import { SmartImportDialog } from "@/components/SmartImportDialog";
-import { generateICSFile } from "@/lib/generators";
+import { CalendarDialog } from "@/components/CalendarDialog";
 import { useAuth } from "@/lib/auth";
 import { LocalApi } from "@/lib/api-adapter";
+import { usePaymentSummary, useRecentPriceChanges } from "@/lib/transactions";
+import { useCurrency, formatMoney } from "@/lib/currency";
+import { annualCost, monthlyCost } from "@shared/costs";
+import { subscriptionInterval } from "@shared/billing-dates";
+import { isTrial, paidPrice } from "@shared/trials";
+import { differenceInDays, format, parseISO, startOfDay } from "date-fns";
+
+// Trials converting within this many days are listed on the dashboard
+const TRIAL_WINDOW_DAYS = 30;
 
 export default function Dashboard() {
   const { user } = useAuth();
-  const { subscriptions, loading, error, isSyncing, cancelSubscription, exportData, migrateLocalToServer } = useSubscriptions();
+  const { subscriptions, loading, error, isSyncing, cancelSubscription, resumeSubscription, exportData, migrateLocalToServer } = useSubscriptions();
+  const paymentSummary = usePaymentSummary();
+  const priceChanges = useRecentPriceChanges();
+  const { baseCurrency, total, convert } = useCurrency();
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
 
@@ -35,26 +47,38 @@ export default function Dashboard() {
   }, [subscriptions, searchTerm, categoryFilter]);
 
   const activeSubs = filteredSubs.filter(s => s.active);
-  const totalMonthlyCost = activeSubs.reduce((acc, sub) => {
-    let monthlyPrice = sub.price;
-    if (sub.interval === "yearly") monthlyPrice = sub.price / 12;
-    if (sub.interval === "weekly") monthlyPrice = sub.price * 4;
-    if (sub.interval === "quarterly") monthlyPrice = sub.price / 3;
-    return acc + monthlyPrice;
-  }, 0);
-
-  const annualSavingsPotential = activeSubs.reduce((acc, sub) => {
-     return acc + (sub.interval === "yearly" ? sub.price : sub.price * 12);
-  }, 0);
+  const monthlyCosts = activeSubs.map(sub => ({ amount: monthlyCost(sub.price, subscriptionInterval(sub)), currency: sub.currency }));
+  // Totals in the base currency; amounts without an exchange rate are listed separately
+  const { total: totalMonthlyCost, unconverted } = total(monthlyCosts);
+  const unconvertedText = Object.entries(unconverted)
+    .map(([currency, amount]) => formatMoney(amount, currency))
+    .join(", ");
+
+  // Trials count at their paid price: that is what keeping them will cost
+  const annualSavingsPotential = total(activeSubs.map(sub => ({
+    amount: annualCost(paidPrice(sub), subscriptionInterval(sub)),
+    currency: sub.currency,
+  }))).total;
 
+  // Monthly spend per category in the base currency
   const categoryData = useMemo(() => {
     const data: Record<string, number> = {};
-    activeSubs.forEach(sub => {
-      if (!data[sub.category]) data[sub.category] = 0;
-      data[sub.category] += 1;
+    activeSubs.forEach((sub, i) => {
+      const amount = convert(monthlyCosts[i].amount, sub.currency);
+      if (amount === null) return;
+      data[sub.category] = (data[sub.category] || 0) + Math.round(amount * 100) / 100;
     });
     return Object.entries(data).map(([name, value]) => ({ name, value }));
-  }, [activeSubs]);
+  }, [activeSubs, monthlyCosts, convert]);
+
+  const endingTrials = useMemo(() => {
+    const today = startOfDay(new Date());
+    return subscriptions
+      .filter(isTrial)
+      .map(sub => ({ sub, daysLeft: differenceInDays(parseISO(sub.trialEndDate), today) }))
+      .filter(({ daysLeft }) => daysLeft >= 0 && daysLeft <= TRIAL_WINDOW_DAYS)
+      .sort((a, b) => a.daysLeft - b.daysLeft);
+  }, [subscriptions]);
 
   const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1'];
 
@@ -108,9 +132,7 @@ export default function Dashboard() {
            <Button variant="outline" size="sm" onClick={exportData}>
             <Download className="mr-2 h-4 w-4" /> Backup
            </Button>
-           <Button variant="outline" size="sm" onClick={() => generateICSFile(subscriptions)}>
-            <Calendar className="mr-2 h-4 w-4" /> Calendar
-           </Button>
+           <CalendarDialog subscriptions={subscriptions} />
            <Link href="/add">
              <Button size="sm">
                <Plus className="mr-2 h-4 w-4" /> Add New
@@ -126,15 +148,20 @@ export default function Dashboard() {
           <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
             <TrendingUp className="h-4 w-4" /> Monthly Spend
           </h3>
-          <div className="text-4xl font-bold mt-2 tracking-tight">€{totalMonthlyCost.toFixed(2)}</div>
-          <p className="text-xs text-muted-foreground mt-1">~ €{(totalMonthlyCost * 12).toFixed(0)} per year</p>
+          <div className="text-4xl font-bold mt-2 tracking-tight">{formatMoney(totalMonthlyCost, baseCurrency)}</div>
+          <p className="text-xs text-muted-foreground mt-1">~ {formatMoney(totalMonthlyCost * 12, baseCurrency, 0)} per year</p>
+          {unconvertedText && (
+            <p className="text-xs text-orange-500 mt-1">
+              + {unconvertedText} without exchange rate (<Link href="/settings" className="underline">add rate</Link>)
+            </p>
+          )}
         </div>
 
         <div className="bg-card border border-border rounded-xl p-6 shadow-sm flex flex-col justify-between">
            <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
              <Lightbulb className="h-4 w-4 text-yellow-500" /> Savings Potential
            </h3>
-           <div className="text-4xl font-bold mt-2 tracking-tight">€{annualSavingsPotential.toFixed(0)}</div>
+           <div className="text-4xl font-bold mt-2 tracking-tight">{formatMoney(annualSavingsPotential, baseCurrency, 0)}</div>
            <p className="text-xs text-muted-foreground mt-1">if you cancelled everything (Annual)</p>
         </div>
         
@@ -158,6 +185,7 @@ export default function Dashboard() {
                  <Tooltip 
                     contentStyle={{ backgroundColor: 'hsl(var(--card))', borderColor: 'hsl(var(--border))', borderRadius: '8px' }}
                     itemStyle={{ color: 'hsl(var(--foreground))' }}
+                    formatter={(value: number) => formatMoney(value, baseCurrency)}
                  />
                </PieChart>
              </ResponsiveContainer>
@@ -171,6 +199,28 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* Trials Ending Soon */}
+      {endingTrials.length > 0 && (
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm space-y-3">
+          <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <Hourglass className="h-4 w-4 text-orange-500" /> Trials Ending Soon
+          </h3>
+          {endingTrials.map(({ sub, daysLeft }) => (
+            <div key={sub.id} className="flex items-center justify-between gap-4 text-sm">
+              <div>
+                <Link href={`/subscriptions/${sub.id}`} className="font-medium hover:underline">{sub.name}</Link>
+                <p className={`text-xs ${daysLeft <= sub.reminderLeadDays ? 'text-orange-500 font-medium' : 'text-muted-foreground'}`}>
+                  {daysLeft === 0 ? "Converts today" : `Converts in ${daysLeft} days`} ({format(parseISO(sub.trialEndDate), "MMM d, yyyy")}) to {formatMoney(paidPrice(sub), sub.currency)}
+                </p>
+              </div>
+              <Link href={`/cancel/${sub.id}`}>
+                <Button variant="outline" size="sm">Cancel Trial</Button>
+              </Link>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="flex flex-col md:flex-row gap-4 items-center bg-card/30 p-4 rounded-xl border border-border/50 backdrop-blur-sm">
         <div className="relative w-full md:w-96">
@@ -202,6 +252,9 @@ export default function Dashboard() {
               key={sub.id} 
               subscription={sub} 
               onCancel={cancelSubscription} 
+              onResume={resumeSubscription}
+              paymentSummary={paymentSummary[sub.id]}
+              priceChange={priceChanges[sub.id]}
             />
           ))
         ) : (
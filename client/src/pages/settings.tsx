@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useCurrency } from "@/lib/currency";
+import { CURRENCIES } from "@/lib/types";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coins, Upload, Trash2, Plus } from "lucide-react";
+
+export default function Settings() {
+  const { baseCurrency, entries, loading, setBaseCurrency, saveRate, importRates, deleteRate } = useCurrency();
+  const [currency, setCurrency] = useState("");
+  const [rate, setRate] = useState("");
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [importing, setImporting] = useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(rate.replace(",", "."));
+    if (!/^[A-Z]{3}$/.test(currency) || !(value > 0)) return;
+    await saveRate({ currency, rate: value, date });
+    setCurrency("");
+    setRate("");
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImporting(true);
+    await importRates(file);
+    setImporting(false);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8 animate-in fade-in duration-500">
+      <div>
+        <h1 className="text-3xl font-heading font-bold tracking-tight">Settings</h1>
+        <p className="text-muted-foreground">Currency used for totals and the exchange rates to convert into it.</p>
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Coins className="h-5 w-5" /> Base Currency</CardTitle>
+          <CardDescription>Dashboard totals are converted into this currency. Each subscription keeps its own currency.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select value={baseCurrency} onValueChange={setBaseCurrency} disabled={loading}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map(curr => <SelectItem key={curr} value={curr}>{curr}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle>Exchange Rates</CardTitle>
+          <CardDescription>
+            Rates use the ECB convention: how many units of a currency one euro buys. The newest rate per currency is used.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="rate-currency">Currency</Label>
+              <Input
+                id="rate-currency"
+                placeholder="USD"
+                maxLength={3}
+                value={currency}
+                onChange={e => setCurrency(e.target.value.toUpperCase())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-value">1 EUR =</Label>
+              <Input id="rate-value" inputMode="decimal" placeholder="1.0942" value={rate} onChange={e => setRate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-date">Date</Label>
+              <Input id="rate-date" type="date" value={date} onChange={e => setDate(e.target.value)} />
+            </div>
+            <Button type="submit" disabled={!currency || !rate}>
+              <Plus className="mr-2 h-4 w-4" /> Save Rate
+            </Button>
+          </form>
+
+          <div className="flex items-center gap-4">
+            <Label htmlFor="rate-file" className="cursor-pointer">
+              <div className="inline-flex items-center rounded-md border border-input px-3 py-2 text-sm hover:bg-accent">
+                <Upload className="mr-2 h-4 w-4" /> {importing ? "Importing..." : "Import ECB File"}
+              </div>
+            </Label>
+            <input id="rate-file" type="file" accept=".xml,.csv" className="hidden" onChange={handleImport} disabled={importing} />
+            <p className="text-xs text-muted-foreground">eurofxref XML or CSV, daily or history</p>
+          </div>
+
+          {entries.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">1 EUR =</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{entry.currency}</TableCell>
+                    <TableCell className="text-right font-mono">{entry.rate}</TableCell>
+                    <TableCell>{format(parseISO(entry.date), "MMM d, yyyy")}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-[10px] h-5 px-1.5 font-normal uppercase">{entry.source}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => deleteRate(entry.id)} aria-label="Delete rate">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">{loading ? "Loading rates..." : "No exchange rates yet."}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useRoute, Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { useSubscriptions } from "@/lib/storage";
+import { describeInterval, subscriptionInterval, todayISO } from "@shared/billing-dates";
+import { nextStatuses, STATUS_LABELS, type SubscriptionStatus } from "@shared/lifecycle";
+import { trialConversion } from "@shared/trials";
+import { useSubscriptionEvents } from "@/lib/lifecycle";
+import { PauseDialog } from "@/components/PauseDialog";
+import { SafeboxCard } from "@/components/SafeboxCard";
+import { usePaymentHistory, usePriceHistory } from "@/lib/transactions";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Receipt, AlertTriangle, PlusCircle, Wallet, TrendingUp, TrendingDown, History, Activity } from "lucide-react";
+import type { Subscription } from "@/lib/types";
+
+// Button label for moving a subscription into a status
+function transitionLabel(from: SubscriptionStatus, to: SubscriptionStatus): string {
+  if (to === "active") {
+    if (from === "trial") return "Keep after Trial";
+    if (from === "paused") return "Resume";
+    return "Withdraw Cancellation";
+  }
+  if (to === "cancelled") return "Mark Cancelled";
+  return "Mark Expired";
+}
+
+// Fields that change together with the status
+function transitionChanges(subscription: Subscription, to: SubscriptionStatus): Partial<Subscription> {
+  if (to === "active" && subscription.status === "trial") {
+    return trialConversion(subscription, subscription.trialEndDate ?? todayISO()) ?? {};
+  }
+  if (to === "active") return { cancellationDate: null };
+  if (to === "cancelled" || to === "expired") return { cancellationDate: todayISO() };
+  return {};
+}
+
+export default function SubscriptionDetail() {
+  const [, params] = useRoute("/subscriptions/:id");
+  const { subscriptions, loading: subsLoading, changeStatus, pauseSubscription, resumeSubscription } = useSubscriptions();
+  const { events, refresh: refreshEvents } = useSubscriptionEvents(params?.id);
+  const { history, loading, error } = usePaymentHistory(params?.id);
+  const priceHistory = usePriceHistory(params?.id);
+
+  const subscription = subscriptions.find(s => s.id === params?.id);
+
+  if (!subscription) {
+    return (
+      <div className="p-8 text-center">
+        <h2 className="text-xl font-bold">{subsLoading ? "Loading..." : "Subscription not found"}</h2>
+        {!subsLoading && <Link href="/"><Button className="mt-4">Go Home</Button></Link>}
+      </div>
+    );
+  }
+
+  const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+  const extraIds = new Set(history?.extra.map(p => p.id) ?? []);
+  // Pending cancellation is reached through the cancellation flow, which knows the contract end
+  const transitions = nextStatuses(subscription.status).filter(status => status !== "pending_cancellation");
+
+  const handleTransition = async (status: SubscriptionStatus) => {
+    if (subscription.status === "paused" && status === "active") {
+      await resumeSubscription(subscription.id);
+    } else {
+      await changeStatus(subscription.id, status, transitionChanges(subscription, status));
+    }
+    refreshEvents();
+  };
+
+  const handlePause = async (pauseStartDate: string, pauseEndDate: string | null) => {
+    await pauseSubscription(subscription.id, pauseStartDate, pauseEndDate);
+    refreshEvents();
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-500">
+      <Link href="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors">
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+      </Link>
+
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-heading font-bold tracking-tight">{subscription.name}</h1>
+          <p className="text-muted-foreground">
+            {subscription.category} • since {formatDate(subscription.startDate)}
+          </p>
+          {subscription.creditorId && (
+            <p className="text-xs text-muted-foreground font-mono">
+              SEPA {subscription.creditorId}{subscription.mandateReference && ` • Mandate ${subscription.mandateReference}`}
+            </p>
+          )}
+        </div>
+        <div className="text-right">
+          <div className="text-2xl font-bold tracking-tight">
+            {subscription.price.toFixed(2)} <span className="text-sm font-normal text-muted-foreground">{subscription.currency}</span>
+          </div>
+          <div className="text-xs text-muted-foreground capitalize">List price, {describeInterval(subscriptionInterval(subscription))}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+          <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <Wallet className="h-4 w-4" /> Total Paid
+          </h3>
+          <div className="text-4xl font-bold mt-2 tracking-tight">
+            {(history?.totalPaid ?? 0).toFixed(2)} <span className="text-base font-normal text-muted-foreground">{subscription.currency}</span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">{history?.payments.length ?? 0} linked payments</p>
+        </div>
+
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+          <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-orange-500" /> Missed Charges
+          </h3>
+          <div className="text-4xl font-bold mt-2 tracking-tight">{history?.missed.length ?? 0}</div>
+          <p className="text-xs text-muted-foreground mt-1">of {history?.expectedCount ?? 0} expected since first payment</p>
+        </div>
+
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+          <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <PlusCircle className="h-4 w-4 text-blue-500" /> Extra Charges
+          </h3>
+          <div className="text-4xl font-bold mt-2 tracking-tight">{history?.extra.length ?? 0}</div>
+          <p className="text-xs text-muted-foreground mt-1">outside the {describeInterval(subscriptionInterval(subscription))} schedule</p>
+        </div>
+      </div>
+
+      {priceHistory.length > 0 && (
+        <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-600 dark:text-yellow-400 text-sm flex items-start gap-3">
+          <TrendingUp className="h-5 w-5 shrink-0" />
+          <p>
+            {subscription.name} went from {priceHistory[0].oldPrice.toFixed(2)} to {priceHistory[0].newPrice.toFixed(2)} {priceHistory[0].currency} on {priceHistory[0].date}
+          </p>
+        </div>
+      )}
+
+      {history && history.missed.length > 0 && (
+        <div className="p-4 bg-orange-500/10 border border-orange-500/20 rounded-lg text-orange-600 dark:text-orange-400 text-sm flex items-start gap-3">
+          <AlertTriangle className="h-5 w-5 shrink-0" />
+          <p>No charge found for: {history.missed.map(formatDate).join(", ")}</p>
+        </div>
+      )}
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5" /> Status
+            <Badge variant="outline" className="ml-2 font-normal">{STATUS_LABELS[subscription.status]}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {transitions.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {transitions.map(status => status === "paused" ? (
+                <PauseDialog key={status} name={subscription.name} onPause={handlePause} />
+              ) : (
+                <Button key={status} variant="outline" size="sm" onClick={() => handleTransition(status)}>
+                  {transitionLabel(subscription.status, status)}
+                </Button>
+              ))}
+              {subscription.active && subscription.status !== "pending_cancellation" && (
+                <Link href={`/cancel/${subscription.id}`}>
+                  <Button variant="outline" size="sm">Cancel...</Button>
+                </Link>
+              )}
+            </div>
+          )}
+          {events.length > 0 && (
+            <ol className="relative border-l border-border ml-2 space-y-4">
+              {events.map(event => (
+                <li key={event.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                  <div className="text-xs text-muted-foreground">{format(parseISO(event.createdAt), "MMM d, yyyy HH:mm")}</div>
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {event.fromStatus ? `${STATUS_LABELS[event.fromStatus]} → ` : ""}{STATUS_LABELS[event.toStatus]}
+                    {event.source === "system" && (
+                      <Badge variant="outline" className="text-[10px] h-5 px-1.5 font-normal">Automatic</Badge>
+                    )}
+                  </div>
+                  {event.note && <p className="text-xs text-muted-foreground">{event.note}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      {priceHistory.length > 0 && (
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><History className="h-5 w-5" /> Price Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="relative border-l border-border ml-2 space-y-4">
+              {priceHistory.map(change => (
+                <li key={change.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                  <div className="text-xs text-muted-foreground">{formatDate(change.date)}</div>
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {change.newPrice > change.oldPrice
+                      ? <TrendingUp className="h-4 w-4 text-red-500" />
+                      : <TrendingDown className="h-4 w-4 text-green-500" />}
+                    {change.oldPrice.toFixed(2)} → {change.newPrice.toFixed(2)} {change.currency}
+                    <Badge variant="outline" className="text-[10px] h-5 px-1.5 font-normal capitalize">{change.source}</Badge>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Receipt className="h-5 w-5" /> Payment History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-red-500">{error}</p>
+          ) : history && history.payments.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...history.payments].reverse().map(payment => (
+                  <TableRow key={payment.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(payment.date)}</TableCell>
+                    <TableCell>
+                      {payment.description}
+                      {extraIds.has(payment.id) && (
+                        <Badge variant="secondary" className="ml-2 text-[10px] h-5 px-1.5">Extra</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono whitespace-nowrap">
+                      {Math.abs(payment.amount).toFixed(2)} {payment.currency}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {loading
+                ? "Loading payment history..."
+                : <>No linked transactions yet. Link imported rows on the <Link href="/transactions" className="underline">Transactions</Link> page.</>}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <SafeboxCard subscription={subscription} />
+    </div>
+  );
+}
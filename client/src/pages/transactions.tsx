@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useTransactions } from "@/lib/transactions";
+import { useSubscriptions } from "@/lib/storage";
+import { TransactionStatusFilter } from "@/lib/types";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Search, Filter, RefreshCw, Link2Off, EyeOff, Eye, Receipt } from "lucide-react";
+
+const UNLINKED = "__unlinked";
+
+export default function Transactions() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<TransactionStatusFilter>("all");
+  const { subscriptions } = useSubscriptions();
+  const { transactions, loading, error, refresh, linkTransaction, unlinkTransaction, ignoreTransaction } =
+    useTransactions({ status: statusFilter, search });
+
+  // Debounce search so we don't hit the server on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const subscriptionName = (id: string | null) =>
+    subscriptions.find(s => s.id === id)?.name || "Unknown subscription";
+
+  const formatDate = (date: string) => {
+    try {
+      return format(parseISO(date), "MMM d, yyyy");
+    } catch {
+      return date;
+    }
+  };
+
+  if (error) return <div className="p-8 text-center text-red-500">
+    <h3 className="text-lg font-bold">Error loading transactions</h3>
+    <p>{error}</p>
+    <Button variant="outline" className="mt-4" onClick={refresh}>Retry</Button>
+  </div>;
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-heading font-bold tracking-tight">Transactions</h1>
+          <p className="text-muted-foreground">
+            Review imported rows, fix wrong matches and hide rows that are not subscriptions.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-4 items-center bg-card/30 p-4 rounded-xl border border-border/50 backdrop-blur-sm">
+        <div className="relative w-full md:w-96">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search descriptions..."
+            className="pl-9 bg-background/50"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            data-testid="input-search-transactions"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as TransactionStatusFilter)}>
+          <SelectTrigger className="w-full md:w-[200px] bg-background/50" data-testid="select-transaction-status">
+            <Filter className="mr-2 h-4 w-4 text-muted-foreground" />
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Transactions</SelectItem>
+            <SelectItem value="linked">Linked</SelectItem>
+            <SelectItem value="unlinked">Unlinked</SelectItem>
+            <SelectItem value="ignored">Ignored</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {transactions.length > 0 ? (
+        <div className="bg-card border border-border rounded-xl shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Subscription</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map(tx => (
+                <TableRow key={tx.id} className={tx.ignored ? 'opacity-50' : ''} data-testid={`row-transaction-${tx.id}`}>
+                  <TableCell className="whitespace-nowrap text-muted-foreground">{formatDate(tx.date)}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{tx.description}</div>
+                    {tx.normalizedMerchant && (
+                      <div className="text-xs text-muted-foreground">{tx.normalizedMerchant}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-mono whitespace-nowrap">
+                    {tx.amount.toFixed(2)} {tx.currency}
+                    {tx.direction === "credit" && (
+                      <div>
+                        <Badge variant="secondary" className="text-xs">{tx.refundOfId ? "Refund" : "Credit"}</Badge>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="min-w-[200px]">
+                    {tx.ignored ? (
+                      <Badge variant="outline" className="text-xs">Ignored</Badge>
+                    ) : (
+                      <Select
+                        value={tx.subscriptionId || UNLINKED}
+                        onValueChange={(v) => v === UNLINKED ? unlinkTransaction(tx.id) : linkTransaction(tx.id, v)}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue placeholder="Not linked">
+                            {tx.subscriptionId ? subscriptionName(tx.subscriptionId) : "Not linked"}
+                          </SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNLINKED}>Not linked</SelectItem>
+                          {subscriptions.map(sub => (
+                            <SelectItem key={sub.id} value={sub.id}>{sub.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {tx.subscriptionId && !tx.ignored && (
+                      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => unlinkTransaction(tx.id)}>
+                        <Link2Off className="h-3 w-3 mr-1" /> Unlink
+                      </Button>
+                    )}
+                    {tx.ignored ? (
+                      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => ignoreTransaction(tx.id, false)}>
+                        <Eye className="h-3 w-3 mr-1" /> Restore
+                      </Button>
+                    ) : (
+                      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => ignoreTransaction(tx.id)}>
+                        <EyeOff className="h-3 w-3 mr-1" /> Ignore
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <div className="py-12 text-center text-muted-foreground bg-muted/20 rounded-xl border border-dashed border-muted">
+          <div className="flex flex-col items-center gap-2">
+            <Receipt className="h-8 w-8 opacity-20" />
+            <p>{loading ? "Loading transactions..." : "No transactions found. Use Smart Import on the dashboard to add some."}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { rotateSafeboxKeys } from "../server/safebox";
+
+// Re-wrap all Safebox data keys under a new master key:
+//   1. move the old key to SAFEBOX_PREVIOUS_MASTER_KEY, put the new one in SAFEBOX_MASTER_KEY
+//   2. npm run safebox:rotate-keys
+//   3. once it reports no errors, remove SAFEBOX_PREVIOUS_MASTER_KEY
+rotateSafeboxKeys()
+  .then(({ rotated, skipped }) => {
+    console.log(`Re-wrapped ${rotated} Safebox keys (${skipped} already up to date)`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error("Key rotation failed:", error.message);
+    process.exit(1);
+  });
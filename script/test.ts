@@ -0,0 +1,231 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DOMParser } from "@xmldom/xmldom";
+import { PDFParse } from "pdf-parse";
+import { extractStatementTransactions } from "../server/pdf-parser";
+import { recognizePDF } from "../server/ocr";
+import { parseCAMT053, parseMT940 } from "../client/src/lib/statement-files";
+import { buildPaymentHistory, type PaymentRecord } from "../shared/payment-history";
+import { archivePause } from "../shared/pauses";
+import { subscriptionPaymentRecords } from "../server/transaction-history";
+import type { Transaction } from "../shared/schema";
+
+// Regression checks against the fixtures in test-data/. Every check runs; the
+// process exits non-zero if any of them failed.
+//   npm test
+
+type Check = [name: string, run: () => void | Promise<void>];
+
+// Parsed output as it would go over the wire (drops undefined fields). The
+// expected files leave out `raw`, the source text each row was parsed from.
+const plain = (value: unknown) => JSON.parse(JSON.stringify(value, (key, v) => key === "raw" ? undefined : v));
+
+function fixturePairs(dir: string, inputExtension: string): Array<{ name: string; input: string; expected: unknown }> {
+  const root = path.resolve("test-data", dir);
+  return fs.readdirSync(root)
+    .filter(file => file.endsWith(inputExtension))
+    .sort()
+    .map(file => {
+      const name = file.slice(0, -inputExtension.length);
+      return {
+        name: `${dir}/${name}`,
+        input: fs.readFileSync(path.join(root, file), "utf8"),
+        expected: JSON.parse(fs.readFileSync(path.join(root, `${name}.expected.json`), "utf8")),
+      };
+    });
+}
+
+// PDF statement text dumps through the bank parser registry
+const statementChecks: Check[] = fixturePairs("pdf-statements", ".txt").map(({ name, input, expected }) => [
+  name,
+  () => assert.deepEqual(plain(extractStatementTransactions(input)), expected),
+]);
+
+// CAMT.053 / MT940 files, parsed in the browser by the import dialog.
+// Node has no DOMParser, so the CAMT parser gets xmldom's.
+(globalThis as any).DOMParser = DOMParser;
+
+const statementFileChecks: Check[] = [
+  ...fixturePairs("statement-files", ".xml").map(({ name, input, expected }): Check =>
+    [name, () => assert.deepEqual(plain(parseCAMT053(input)), expected)]),
+  ...fixturePairs("statement-files", ".sta").map(({ name, input, expected }): Check =>
+    [name, () => assert.deepEqual(plain(parseMT940(input)), expected)]),
+];
+
+const charge = (id: string, date: string, amount: number): PaymentRecord =>
+  ({ id, date, amount: -amount, currency: "EUR", description: "Netflix", direction: "debit" });
+const credit = (id: string, date: string, amount: number, refundOfId: string | null = null): PaymentRecord =>
+  ({ id, date, amount, currency: "EUR", description: "Netflix Erstattung", direction: "credit", refundOfId });
+
+const paymentHistoryChecks: Check[] = [
+  ["payment-history/credits-and-refunds", () => {
+    // September was refunded; a credit linked by hand on the October date is no payment
+    const history = buildPaymentHistory(
+      { startDate: "2026-07-01", interval: "monthly" },
+      [
+        charge("jul", "2026-07-01", 1299),
+        charge("aug", "2026-08-01", 1299),
+        charge("sep", "2026-09-01", 1299),
+        credit("sep-refund", "2026-09-10", 1299, "sep"),
+        credit("oct-credit", "2026-10-01", 1299),
+      ],
+      new Date("2026-10-20T12:00:00Z"),
+    );
+
+    assert.deepEqual(history.payments.map(p => p.id), ["jul", "aug", "sep"]);
+    assert.deepEqual(history.refunds.map(p => p.id), ["sep-refund"]);
+    assert.equal(history.totalPaid, 2 * 1299);
+    assert.equal(history.expectedCount, 4);
+    assert.deepEqual(history.missed, ["2026-10-01"]);
+    assert.equal(history.lastExpectedMissed, true);
+    assert.deepEqual(history.extra, []);
+  }],
+
+  ["payment-history/old-gap-not-overdue", () => {
+    // August never showed up, but every charge since did
+    const history = buildPaymentHistory(
+      { startDate: "2026-07-01", interval: "monthly" },
+      [
+        charge("jul", "2026-07-01", 1299),
+        charge("sep", "2026-09-01", 1299),
+        charge("oct", "2026-10-02", 1299),
+      ],
+      new Date("2026-10-20T12:00:00Z"),
+    );
+
+    assert.deepEqual(history.missed, ["2026-08-01"]);
+    assert.equal(history.lastExpectedMissed, false);
+  }],
+
+  ["payment-history/latest-charge-within-tolerance", () => {
+    // The October charge may still be booked until the 11th
+    const history = buildPaymentHistory(
+      { startDate: "2026-08-01", interval: "monthly" },
+      [charge("aug", "2026-08-01", 1299), charge("sep", "2026-09-01", 1299)],
+      new Date("2026-10-05T12:00:00Z"),
+    );
+
+    assert.deepEqual(history.missed, ["2026-10-01"]);
+    assert.equal(history.lastExpectedMissed, false);
+  }],
+
+  ["payment-history/replaced-pause", () => {
+    // Paused April and May, later paused again for September: both gaps are expected
+    const first = { pauseStartDate: "2026-03-15", pauseEndDate: "2026-05-15" };
+    const pastPauses = archivePause(first, "2026-08-15", "2026-08-10");
+    assert.deepEqual(pastPauses, [{ start: "2026-03-15", end: "2026-05-15" }]);
+
+    const history = buildPaymentHistory(
+      { startDate: "2026-01-01", interval: "monthly", pauseStartDate: "2026-08-15", pauseEndDate: "2026-09-15", pastPauses },
+      ["2026-01-01", "2026-02-01", "2026-03-01", "2026-06-01", "2026-07-01", "2026-08-01", "2026-10-01"]
+        .map(date => charge(date, date, 1299)),
+      new Date("2026-10-20T12:00:00Z"),
+    );
+
+    assert.equal(history.expectedCount, 7);
+    assert.deepEqual(history.missed, []);
+  }],
+
+  ["pauses/archive", () => {
+    const running = { pauseStartDate: "2026-09-01", pauseEndDate: null };
+    // Resuming keeps the same pause; a scheduled pause that never began skipped nothing
+    assert.equal(archivePause(running, "2026-09-01", "2026-10-01"), null);
+    assert.equal(archivePause({ pauseStartDate: "2026-11-01", pauseEndDate: null }, "2026-12-01", "2026-10-01"), null);
+    // A running pause that is replaced ends today
+    assert.deepEqual(
+      archivePause({ ...running, pastPauses: [{ start: "2026-03-01", end: "2026-04-01" }] }, "2026-12-01", "2026-10-01"),
+      [{ start: "2026-03-01", end: "2026-04-01" }, { start: "2026-09-01", end: "2026-10-01" }],
+    );
+  }],
+
+  ["payment-history/overlapping-imports", () => {
+    // The October export repeats the September charge the September export already stored
+    const stored = (id: string, importJobId: string, importedAt: string, date: string): Transaction => ({
+      id, userId: "user", importJobId, date, description: "NETFLIX.COM", amount: -1299, currency: "EUR",
+      direction: "debit", refundOfId: null, creditorId: null, mandateReference: null,
+      normalizedMerchant: "Netflix", subscriptionId: "netflix", ignored: false, rawData: null,
+      createdAt: new Date(importedAt),
+    });
+    const txs = [
+      stored("sep-aug", "sep-export", "2026-09-05", "2026-08-01"),
+      stored("sep-sep", "sep-export", "2026-09-05", "2026-09-01"),
+      stored("oct-sep", "oct-export", "2026-10-05", "2026-09-01"),
+      stored("oct-oct", "oct-export", "2026-10-05", "2026-10-01"),
+    ];
+
+    const history = buildPaymentHistory(
+      { startDate: "2026-08-01", interval: "monthly" },
+      subscriptionPaymentRecords("netflix", txs),
+      new Date("2026-10-20T12:00:00Z"),
+    );
+
+    assert.deepEqual(history.payments.map(p => p.id), ["sep-aug", "sep-sep", "oct-oct"]);
+    assert.equal(history.totalPaid, 3 * 1299);
+    assert.deepEqual(history.missed, []);
+    assert.deepEqual(history.extra, []);
+  }],
+];
+
+const analyticsChecks: Check[] = [
+  ["analytics/charge-end", async () => {
+    // The storage module connects lazily, but refuses to load without a database URL
+    process.env.DATABASE_URL ??= "postgres://localhost/unused";
+    const { chargeEnd } = await import("../server/analytics");
+    const stopped = { active: false, status: "expired", cancellationDate: null, nextPaymentDate: "2026-06-01", updatedAt: new Date("2026-07-10T12:00:00") };
+
+    assert.equal(chargeEnd({ ...stopped, status: "active", active: true }, "2026-10-19"), "2026-10-19");
+    assert.equal(chargeEnd({ ...stopped, cancellationDate: "2026-03-31" }, "2026-10-19"), "2026-03-31");
+    // Inactive without a cancellation date: last linked payment, else before the next charge
+    assert.equal(chargeEnd(stopped, "2026-10-19", "2026-05-02"), "2026-05-02");
+    assert.equal(chargeEnd(stopped, "2026-10-19"), "2026-05-31");
+    assert.equal(chargeEnd({ ...stopped, nextPaymentDate: "2026-12-01" }, "2026-10-19"), "2026-07-10");
+    assert.equal(chargeEnd(stopped, "2026-04-30"), "2026-04-30");
+  }],
+];
+
+const ocrChecks: Check[] = [
+  ["ocr/worker-start-failure", async () => {
+    // Without traineddata the worker cannot start; the PDF parser must still be released
+    const tessdata = fs.mkdtempSync(path.join(os.tmpdir(), "tessdata-"));
+    const previousDir = process.env.TESSDATA_DIR;
+    const destroy = PDFParse.prototype.destroy;
+    let destroyed = 0;
+    process.env.TESSDATA_DIR = tessdata;
+    PDFParse.prototype.destroy = function (this: PDFParse) {
+      destroyed++;
+      return destroy.call(this);
+    };
+
+    try {
+      await assert.rejects(recognizePDF(Buffer.from("%PDF-1.4\n")), /language data missing/);
+      assert.equal(destroyed, 1);
+    } finally {
+      PDFParse.prototype.destroy = destroy;
+      if (previousDir === undefined) delete process.env.TESSDATA_DIR;
+      else process.env.TESSDATA_DIR = previousDir;
+      fs.rmSync(tessdata, { recursive: true });
+    }
+  }],
+];
+
+async function main() {
+  const checks = [...statementChecks, ...statementFileChecks, ...paymentHistoryChecks, ...analyticsChecks, ...ocrChecks];
+  let failed = 0;
+
+  for (const [name, run] of checks) {
+    try {
+      await run();
+      console.log(`ok   ${name}`);
+    } catch (error: any) {
+      failed++;
+      console.error(`FAIL ${name}\n${error.message}`);
+    }
+  }
+
+  console.log(`\n${checks.length - failed} of ${checks.length} checks passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,200 @@
+import { storage } from "./storage";
+import { addDays, addMonths, subscriptionInterval, todayISO } from "@shared/billing-dates";
+import { chargeDatesBetween } from "@shared/pauses";
+import { convertAmount, latestRates, type RateTable } from "@shared/currency";
+import { monthlyCost } from "@shared/costs";
+import { isTrial, trialConversion } from "@shared/trials";
+import type { Subscription, PriceHistoryEntry } from "@shared/schema";
+
+// Spending aggregation for the analytics page. History and forecast use the
+// actual charge dates of each subscription (leaving out paused periods); category and payment-method shares
+// use the normalized monthly cost. Everything is converted into the user's base
+// currency. All amounts are in cents.
+
+export interface MonthlySpend {
+  month: string; // YYYY-MM
+  total: number;
+}
+
+export interface SpendShare {
+  name: string;
+  monthly: number; // normalized monthly cost of the active subscriptions
+}
+
+export interface SpendingAnalytics {
+  baseCurrency: string;
+  history: MonthlySpend[];
+  forecast: MonthlySpend[];
+  byCategory: SpendShare[];
+  byPaymentMethod: SpendShare[];
+  unconvertedCurrencies: string[]; // currencies left out for lack of an exchange rate
+}
+
+interface Charge {
+  date: string;
+  amount: number; // cents, base currency
+  subscription: Subscription;
+}
+
+function monthOf(date: string): string {
+  return date.slice(0, 7);
+}
+
+// Price in effect on a date, taking recorded price changes into account
+function priceOn(subscription: Subscription, changes: PriceHistoryEntry[], date: string): number {
+  if (changes.length === 0) return subscription.price;
+  const applied = changes.filter(c => c.date <= date);
+  if (applied.length > 0) return applied[applied.length - 1].newPrice;
+  return changes[0].oldPrice;
+}
+
+// Last day a subscription can be charged. An inactive one without a cancellation
+// date (expired, or stopped before statuses existed) ran until its last linked
+// payment; without any, until the day before the next charge it no longer paid or
+// the day it was last edited, whichever came first.
+export function chargeEnd(
+  subscription: Pick<Subscription, "active" | "status" | "cancellationDate" | "nextPaymentDate" | "updatedAt">,
+  until: string,
+  lastPaymentDate?: string
+): string {
+  let end: string;
+  if (subscription.cancellationDate) {
+    end = subscription.cancellationDate;
+  } else if (subscription.active || subscription.status === "paused") {
+    end = until;
+  } else if (lastPaymentDate) {
+    end = lastPaymentDate;
+  } else {
+    const beforeNext = addDays(subscription.nextPaymentDate, -1);
+    const edited = todayISO(subscription.updatedAt);
+    end = beforeNext < edited ? beforeNext : edited;
+  }
+  return end < until ? end : until;
+}
+
+function collectCharges(
+  subs: Subscription[],
+  changesBySub: Record<string, PriceHistoryEntry[]>,
+  lastPayments: Record<string, string>,
+  from: string,
+  to: string,
+  baseCurrency: string,
+  rates: RateTable,
+  unconverted: Set<string>
+): Charge[] {
+  const charges: Charge[] = [];
+
+  subs.forEach(sub => {
+    const end = chargeEnd(sub, to, lastPayments[sub.id]);
+
+    // Trials are free until they convert; from then on they bill as the paid plan
+    const billed = isTrial(sub) ? { ...sub, ...trialConversion(sub, sub.trialEndDate) } : sub;
+    const start = billed.startDate > from ? billed.startDate : from;
+    const changes = changesBySub[sub.id] ?? [];
+
+    // Charges inside a pause are skipped
+    chargeDatesBetween(billed, start, end).forEach(date => {
+      const amount = convertAmount(priceOn(billed, changes, date), sub.currency, baseCurrency, rates);
+      if (amount === null) {
+        unconverted.add(sub.currency);
+        return;
+      }
+      charges.push({ date, amount, subscription: sub });
+    });
+  });
+
+  return charges;
+}
+
+// All months from one YYYY-MM to another, inclusive
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  for (let month = from; month <= to; month = monthOf(addMonths(`${month}-01`, 1))) {
+    months.push(month);
+  }
+  return months;
+}
+
+function totalsByMonth(charges: Charge[], months: string[]): MonthlySpend[] {
+  const totals: Record<string, number> = Object.fromEntries(months.map(m => [m, 0]));
+  charges.forEach(charge => {
+    const month = monthOf(charge.date);
+    if (month in totals) totals[month] += charge.amount;
+  });
+  return months.map(month => ({ month, total: Math.round(totals[month]) }));
+}
+
+function shares(
+  subs: Subscription[],
+  key: (sub: Subscription) => string,
+  baseCurrency: string,
+  rates: RateTable,
+  unconverted: Set<string>
+): SpendShare[] {
+  const totals: Record<string, number> = {};
+  subs.forEach(sub => {
+    const amount = convertAmount(monthlyCost(sub.price, subscriptionInterval(sub)), sub.currency, baseCurrency, rates);
+    if (amount === null) {
+      unconverted.add(sub.currency);
+      return;
+    }
+    const name = key(sub);
+    totals[name] = (totals[name] || 0) + amount;
+  });
+  return Object.entries(totals)
+    .map(([name, total]) => ({ name, monthly: Math.round(total) }))
+    .sort((a, b) => b.monthly - a.monthly);
+}
+
+export async function buildSpendingAnalytics(userId: string, historyMonths = 24, today: string = todayISO()): Promise<SpendingAnalytics> {
+  const [user, subs, rateEntries, priceChanges, linked] = await Promise.all([
+    storage.getUser(userId),
+    storage.getSubscriptions(userId),
+    storage.getExchangeRates(userId),
+    storage.getRecentPriceChanges(userId, "0000-01-01"),
+    storage.getTransactions(userId, { linked: true, ignored: false }),
+  ]);
+
+  const baseCurrency = user?.baseCurrency ?? "EUR";
+  const rates = latestRates(rateEntries.map(r => ({ currency: r.currency, rate: Number(r.rate), date: r.date })));
+
+  // Oldest first, so the last applicable change wins in priceOn
+  const changesBySub: Record<string, PriceHistoryEntry[]> = {};
+  [...priceChanges].reverse().forEach(change => {
+    (changesBySub[change.subscriptionId] ||= []).push(change);
+  });
+
+  // Date of the latest linked charge per subscription
+  const lastPayments: Record<string, string> = {};
+  linked.forEach(tx => {
+    if (tx.direction === "credit" || !tx.subscriptionId) return;
+    const last = lastPayments[tx.subscriptionId];
+    if (!last || tx.date > last) lastPayments[tx.subscriptionId] = tx.date;
+  });
+
+  const unconverted = new Set<string>();
+  const currentMonth = monthOf(today);
+
+  // History: from the first start date (at most historyMonths back) through today
+  const earliestStart = subs.reduce((min, s) => s.startDate < min ? s.startDate : min, today);
+  const windowStart = monthOf(addMonths(`${currentMonth}-01`, -(historyMonths - 1)));
+  const historyStart = monthOf(earliestStart) > windowStart ? monthOf(earliestStart) : windowStart;
+  const pastCharges = collectCharges(subs, changesBySub, lastPayments, `${historyStart}-01`, today, baseCurrency, rates, unconverted);
+
+  // Forecast: the 12 full months after the current one
+  const forecastStart = addMonths(`${currentMonth}-01`, 1);
+  const forecastEnd = addDays(addMonths(forecastStart, 12), -1);
+  const futureCharges = collectCharges(subs, changesBySub, lastPayments, forecastStart, forecastEnd, baseCurrency, rates, unconverted);
+
+  // Shares: what the currently running subscriptions cost per month
+  const activeSubs = subs.filter(sub => sub.active);
+
+  return {
+    baseCurrency,
+    history: totalsByMonth(pastCharges, monthsBetween(historyStart, currentMonth)),
+    forecast: totalsByMonth(futureCharges, monthsBetween(monthOf(forecastStart), monthOf(forecastEnd))),
+    byCategory: shares(activeSubs, sub => sub.category, baseCurrency, rates, unconverted),
+    byPaymentMethod: shares(activeSubs, sub => sub.paymentMethod, baseCurrency, rates, unconverted),
+    unconvertedCurrencies: Array.from(unconverted).sort(),
+  };
+}
@@ -0,0 +1,36 @@
+import type { ExtractedTransaction } from "../pdf-parser";
+import {
+  type StatementParser, statementLines, statementHeader, statementPeriodEnd, yearFor, parseGermanAmount, isoDate,
+  bookingBlocks, joinDescription, matchesAny, COMMON_NOISE,
+} from "./common";
+
+// Booking type, value date without a year and the amount with a trailing sign:
+// Lastschrift 01.10 12,99-
+// Netflix International B.V.
+const BOOKING = /^(.+?) (\d{2})\.(\d{2}) (\d{1,3}(?:\.\d{3})*,\d{2})([+-])$/;
+
+const NOISE = [...COMMON_NOISE, /^angaben zu den umsätzen/i, /^auszug \d+/i];
+
+export const commerzbankParser: StatementParser = {
+  id: "commerzbank",
+  bank: "Commerzbank",
+
+  detect: text => /\bCommerzbank\b/i.test(statementHeader(text)),
+
+  parse(text) {
+    const periodEnd = statementPeriodEnd(text);
+    const blocks = bookingBlocks(statementLines(text), line => BOOKING.test(line), line => matchesAny(NOISE, line));
+    return blocks.map((block): ExtractedTransaction => {
+      const [, bookingType, day, month, amount, sign] = block[0].match(BOOKING)!;
+      const value = parseGermanAmount(amount);
+      return {
+        date: isoDate(day, month, yearFor(month, periodEnd)),
+        description: joinDescription(block.slice(1)) || bookingType,
+        amount: sign === "-" ? -value : value,
+        currency: "EUR",
+        direction: sign === "-" ? "debit" : "credit",
+        raw: block.join("\n"),
+      };
+    });
+  },
+};
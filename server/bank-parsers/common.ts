@@ -0,0 +1,96 @@
+import type { Direction } from "@shared/direction";
+import type { ExtractedTransaction } from "../pdf-parser";
+
+// Shared pieces for the bank-specific statement parsers. Each parser knows the
+// layout of one bank's PDF statement as it comes out of the text extraction:
+// where a booking starts, how the amount is signed and which lines are page
+// furniture. Amounts are signed like in bank CSV exports (negative = money out)
+// and every booking carries its direction.
+
+export interface StatementParser {
+  id: string;
+  bank: string;
+  detect(text: string): boolean; // true if the header text belongs to this bank
+  parse(text: string): ExtractedTransaction[];
+}
+
+export function statementLines(text: string): string[] {
+  return text.split("\n").map(line => line.replace(/\s+/g, " ").trim()).filter(line => line.length > 0);
+}
+
+// 1.234,56 -> 1234.56
+export function parseGermanAmount(value: string): number {
+  return parseFloat(value.replace(/\./g, "").replace(",", "."));
+}
+
+// Signed statement amounts: a minus is money out
+export function directionOf(amount: string): Direction {
+  return amount.startsWith("-") ? "debit" : "credit";
+}
+
+export function isoDate(day: string, month: string, year: string | number): string {
+  const fullYear = String(year).length === 2 ? `20${year}` : String(year);
+  return `${fullYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+// Statement period ("01.10.2026 bis 31.10.2026"), used to give DD.MM. dates a year
+export function statementPeriodEnd(text: string): { month: number; year: number } | null {
+  const match = text.match(/\d{1,2}\.\d{1,2}\.\d{4}\s*(?:bis|-|–)\s*\d{1,2}\.(\d{1,2})\.(\d{4})/);
+  if (match) return { month: parseInt(match[1]), year: parseInt(match[2]) };
+  const dated = text.match(/(?:Kontoauszug|Auszug)[^\n]*?\d{1,2}\.(\d{1,2})\.(\d{4})/i);
+  return dated ? { month: parseInt(dated[1]), year: parseInt(dated[2]) } : null;
+}
+
+// A January statement can still list December bookings of the year before
+export function yearFor(month: string, periodEnd: { month: number; year: number } | null): number {
+  const year = periodEnd?.year ?? new Date().getFullYear();
+  return periodEnd && parseInt(month) > periodEnd.month ? year - 1 : year;
+}
+
+// Group lines into bookings: a booking starts at a line accepted by isStart and
+// takes the following lines (the wrapped booking text) until the next start.
+// Noise lines (balances, page headers) end the current booking and are dropped.
+export function bookingBlocks(
+  lines: string[],
+  isStart: (line: string) => boolean,
+  isNoise: (line: string) => boolean,
+): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    if (isNoise(line)) {
+      current = null;
+    } else if (isStart(line)) {
+      current = [line];
+      blocks.push(current);
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  return blocks;
+}
+
+export function joinDescription(parts: string[]): string {
+  return parts.map(part => part.trim()).filter(Boolean).join(" ").replace(/\s+/g, " ");
+}
+
+// Lines every German statement has that are never bookings
+export const COMMON_NOISE = [
+  /^(alter|neuer) (konto)?stand/i,
+  /^(alter|neuer) saldo/i,
+  /^kontostand/i,
+  /^übertrag/i,
+  /^seite \d+ (von|\/) \d+/i,
+  /^\d+ \/ \d+$/,
+];
+
+// Banks print their name in the letterhead; only look there, bookings can mention other banks
+export function statementHeader(text: string, lineCount = 15): string {
+  return statementLines(text).slice(0, lineCount).join("\n");
+}
+
+export function matchesAny(patterns: RegExp[], line: string): boolean {
+  return patterns.some(pattern => pattern.test(line));
+}
@@ -0,0 +1,35 @@
+import type { ExtractedTransaction } from "../pdf-parser";
+import {
+  type StatementParser, directionOf, statementLines, statementHeader, statementPeriodEnd, yearFor, parseGermanAmount, isoDate,
+  bookingBlocks, joinDescription, matchesAny, COMMON_NOISE,
+} from "./common";
+
+// Booking day and value day without a year, the year comes from the statement period:
+// 01.10. 01.10. Lastschrift -12,99
+// Netflix International B.V.
+const BOOKING = /^(\d{2})\.(\d{2})\. \d{2}\.\d{2}\. (.+?) ([+-]?\d{1,3}(?:\.\d{3})*,\d{2})$/;
+
+const NOISE = [...COMMON_NOISE, /^bu\.tag wert/i];
+
+export const dkbParser: StatementParser = {
+  id: "dkb",
+  bank: "DKB",
+
+  detect: text => /\b(DKB|Deutsche Kreditbank)\b/i.test(statementHeader(text)),
+
+  parse(text) {
+    const periodEnd = statementPeriodEnd(text);
+    const blocks = bookingBlocks(statementLines(text), line => BOOKING.test(line), line => matchesAny(NOISE, line));
+    return blocks.map((block): ExtractedTransaction => {
+      const [, day, month, bookingType, amount] = block[0].match(BOOKING)!;
+      return {
+        date: isoDate(day, month, yearFor(month, periodEnd)),
+        description: joinDescription(block.slice(1)) || bookingType,
+        amount: parseGermanAmount(amount),
+        currency: "EUR",
+        direction: directionOf(amount),
+        raw: block.join("\n"),
+      };
+    });
+  },
+};
@@ -0,0 +1,35 @@
+import type { ExtractedTransaction } from "../pdf-parser";
+import {
+  type StatementParser, directionOf, statementLines, statementHeader, parseGermanAmount, isoDate, bookingBlocks, joinDescription, matchesAny, COMMON_NOISE,
+} from "./common";
+
+// Two dated lines per booking: the booking date with type, payee and amount,
+// then the value date with the start of the purpose (no amount):
+// 01.10.2026 Lastschrift Netflix International B.V. -12,99
+// 01.10.2026 Mitgliedschaft Oktober 2026
+const BOOKING = /^(\d{2})\.(\d{2})\.(\d{4}) (.+?) (-?\d{1,3}(?:\.\d{3})*,\d{2})$/;
+const VALUE_DATE = /^\d{2}\.\d{2}\.\d{4} /;
+
+const NOISE = [...COMMON_NOISE, /^buchung buchung/i, /^valuta$/i];
+
+export const ingParser: StatementParser = {
+  id: "ing",
+  bank: "ING",
+
+  detect: text => /\bING(-DiBa)?\b/.test(statementHeader(text)),
+
+  parse(text) {
+    const blocks = bookingBlocks(statementLines(text), line => BOOKING.test(line), line => matchesAny(NOISE, line));
+    return blocks.map((block): ExtractedTransaction => {
+      const [, day, month, year, payee, amount] = block[0].match(BOOKING)!;
+      return {
+        date: isoDate(day, month, year),
+        description: joinDescription([payee, ...block.slice(1).map(line => line.replace(VALUE_DATE, ""))]),
+        amount: parseGermanAmount(amount),
+        currency: "EUR",
+        direction: directionOf(amount),
+        raw: block.join("\n"),
+      };
+    });
+  },
+};
@@ -0,0 +1,36 @@
+import type { ExtractedTransaction } from "../pdf-parser";
+import {
+  type StatementParser, directionOf, statementLines, statementHeader, parseGermanAmount, isoDate, bookingBlocks, joinDescription, matchesAny, COMMON_NOISE,
+} from "./common";
+
+// Payee first, then the booking date and a signed amount with the euro sign;
+// booking type, value date and SEPA details follow on their own lines:
+// Netflix International B.V. 01.10.2026 -12,99€
+// Lastschrift
+// Wertstellung 01.10.2026
+const BOOKING = /^(.+?) (\d{2})\.(\d{2})\.(\d{4}) ([+-]\d{1,3}(?:\.\d{3})*,\d{2}) ?€$/;
+const VALUE_DATE = /^wertstellung \d{2}\.\d{2}\.\d{4}$/i;
+
+const NOISE = [...COMMON_NOISE, /^beschreibung verbuchungsdatum/i];
+
+export const n26Parser: StatementParser = {
+  id: "n26",
+  bank: "N26",
+
+  detect: text => /\bN26\b/.test(statementHeader(text)),
+
+  parse(text) {
+    const blocks = bookingBlocks(statementLines(text), line => BOOKING.test(line), line => matchesAny(NOISE, line));
+    return blocks.map((block): ExtractedTransaction => {
+      const [, payee, day, month, year, amount] = block[0].match(BOOKING)!;
+      return {
+        date: isoDate(day, month, year),
+        description: joinDescription([payee, ...block.slice(1).filter(line => !VALUE_DATE.test(line))]),
+        amount: parseGermanAmount(amount),
+        currency: "EUR",
+        direction: directionOf(amount),
+        raw: block.join("\n"),
+      };
+    });
+  },
+};
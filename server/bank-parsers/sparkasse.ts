@@ -0,0 +1,33 @@
+import type { ExtractedTransaction } from "../pdf-parser";
+import {
+  type StatementParser, directionOf, statementLines, statementHeader, parseGermanAmount, isoDate, bookingBlocks, joinDescription, matchesAny, COMMON_NOISE,
+} from "./common";
+
+// 01.10.2026 Lastschrift -12,99
+// Netflix International B.V.          <- payee and purpose wrap onto the next lines
+// Mitgliedschaft Oktober 2026
+const BOOKING = /^(\d{2})\.(\d{2})\.(\d{4}) (.+?) (-?\d{1,3}(?:\.\d{3})*,\d{2})$/;
+
+const NOISE = [...COMMON_NOISE, /^datum erläuterung/i];
+
+export const sparkasseParser: StatementParser = {
+  id: "sparkasse",
+  bank: "Sparkasse",
+
+  detect: text => /\bSparkasse\b/i.test(statementHeader(text)),
+
+  parse(text) {
+    const blocks = bookingBlocks(statementLines(text), line => BOOKING.test(line), line => matchesAny(NOISE, line));
+    return blocks.map((block): ExtractedTransaction => {
+      const [, day, month, year, bookingType, amount] = block[0].match(BOOKING)!;
+      return {
+        date: isoDate(day, month, year),
+        description: joinDescription(block.slice(1)) || bookingType,
+        amount: parseGermanAmount(amount),
+        currency: "EUR",
+        direction: directionOf(amount),
+        raw: block.join("\n"),
+      };
+    });
+  },
+};
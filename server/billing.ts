@@ -0,0 +1,31 @@
+import { storage } from "./storage";
+import { rollNextPaymentDate, todayISO } from "@shared/billing-dates";
+import { automaticTransition } from "@shared/lifecycle";
+import type { Subscription } from "@shared/schema";
+
+// Move stale nextPaymentDate values forward and persist them, so a date in the
+// past only ever means a charge did not happen - not that nobody updated the row.
+// Status changes that are due (a trial converting, a cancellation taking effect)
+// are applied first and recorded in the subscription's timeline.
+export async function rollForwardSubscriptions(userId: string, subs: Subscription[]): Promise<Subscription[]> {
+  const today = todayISO();
+
+  return Promise.all(subs.map(async sub => {
+    const transition = automaticTransition(sub, today);
+    const changed = { ...sub, ...transition?.changes };
+    const next = rollNextPaymentDate(changed, today);
+    if (!transition && next === sub.nextPaymentDate) return sub;
+
+    const updated = await storage.updateSubscription(sub.id, userId, { ...transition?.changes, nextPaymentDate: next });
+    if (transition && transition.changes.status !== sub.status) {
+      await storage.createSubscriptionEvent(userId, {
+        subscriptionId: sub.id,
+        fromStatus: sub.status,
+        toStatus: transition.changes.status,
+        source: "system",
+        note: transition.note,
+      });
+    }
+    return updated ?? { ...changed, nextPaymentDate: next };
+  }));
+}
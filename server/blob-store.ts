@@ -0,0 +1,61 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// File contents for the Safebox behind a small key/value interface, so documents
+// can live on local disk, in object storage or anywhere else. Keys look like
+// "<userId>/<documentId>"; the document metadata stays on the subscription row.
+
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null = no such blob
+  delete(key: string): Promise<void>;
+}
+
+// Default: one file per blob below a directory on the server
+export class LocalBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  // Keys are generated by the server, but never let one escape the root
+  private pathFor(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid blob key "${key}"`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+}
+
+export function createBlobStore(): BlobStore {
+  return new LocalBlobStore(process.env.BLOB_STORAGE_DIR || path.resolve("data", "blobs"));
+}
+
+let store: BlobStore | undefined;
+
+export function getBlobStore(): BlobStore {
+  if (!store) store = createBlobStore();
+  return store;
+}
+
+// Swap the store (e.g. for S3-compatible object storage)
+export function setBlobStore(next: BlobStore) {
+  store = next;
+}
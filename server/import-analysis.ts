@@ -0,0 +1,232 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { detectRecurringPayments, merchantKey, normalizeMerchant, sameMandate, type RecurrenceCandidate } from "@shared/recurrence";
+import { DIRECTIONS, assignDirections, matchRefunds } from "@shared/direction";
+import { sepaKey, sepaReferenceOf } from "@shared/sepa";
+import { dedupeAcrossImports, transactionKey } from "./transaction-history";
+import type { ImportJob, InsertTransaction, Transaction, Subscription, PriceHistoryEntry } from "@shared/schema";
+import { PROVIDERS } from "../client/src/data/providers";
+import { extractInvoiceDetails, looksLikeInvoice, type InvoiceDetails } from "./pdf-parser";
+
+const providers = Object.values(PROVIDERS);
+
+// Row shape posted by the client importer (amounts in major units, e.g. euros)
+export const importedRowSchema = z.object({
+  date: z.string().min(1),
+  description: z.string().min(1),
+  amount: z.number(),
+  currency: z.string().default("EUR"),
+  direction: z.enum(DIRECTIONS).optional(), // missing = decided by assignDirections
+  // SEPA direct debit details from CAMT/MT940 files or mapped CSV columns
+  creditorName: z.string().optional(),
+  creditorId: z.string().optional(),
+  mandateReference: z.string().optional(),
+  raw: z.any().optional(),
+});
+
+export type ImportedRow = z.infer<typeof importedRowSchema>;
+
+export interface ImportAnalysisResult {
+  job: ImportJob;
+  candidates: RecurrenceCandidate<Transaction>[];
+  priceChanges: PriceHistoryEntry[];
+}
+
+// Convert posted rows into transaction records (amounts stored as cents).
+// SEPA details missing from the row are taken from the booking text.
+function toInsertTransactions(rows: ImportedRow[], importJobId: string): InsertTransaction[] {
+  return assignDirections(rows).map(row => {
+    const sepa = sepaReferenceOf(row);
+    return {
+      importJobId,
+      date: row.date,
+      description: row.description,
+      amount: Math.round(row.amount * 100),
+      currency: row.currency || "EUR",
+      direction: row.direction,
+      creditorId: sepa.creditorId ?? null,
+      mandateReference: sepa.mandateReference ?? null,
+      normalizedMerchant: normalizeMerchant(row.creditorName || row.description, providers) || null,
+      rawData: row.raw ?? null,
+    };
+  });
+}
+
+// Append a price history entry when the latest charge differs from the stored price
+async function recordPriceChange(userId: string, sub: Subscription): Promise<PriceHistoryEntry | undefined> {
+  const linked = (await storage.getTransactions(userId, { subscriptionId: sub.id, ignored: false }))
+    .filter(tx => tx.currency === sub.currency && tx.direction === "debit"); // newest first
+  if (linked.length === 0) return undefined;
+
+  const latest = Math.abs(linked[0].amount);
+  if (latest === sub.price) return undefined;
+
+  // Date the change at the first charge of the trailing run at the new amount
+  let since = linked[0].date;
+  for (const tx of linked) {
+    if (Math.abs(tx.amount) !== latest) break;
+    since = tx.date;
+  }
+
+  const history = await storage.getPriceHistory(sub.id, userId);
+  if (history.some(entry => entry.date === since && entry.newPrice === latest)) return undefined;
+
+  const entry = await storage.createPriceHistoryEntry(userId, {
+    subscriptionId: sub.id,
+    date: since,
+    oldPrice: sub.price,
+    newPrice: latest,
+    currency: sub.currency,
+    source: "import",
+  });
+  await storage.updateSubscription(sub.id, userId, { price: latest });
+  return entry;
+}
+
+// Link unlinked rows to subscriptions we already track and record any price change.
+// Direct debits of a subscription with a known mandate are matched by creditor ID and
+// mandate; a debit from another creditor is never linked by its name alone.
+async function trackExistingSubscriptions(userId: string, txs: Transaction[]): Promise<PriceHistoryEntry[]> {
+  const subs = await storage.getSubscriptions(userId);
+  const changes: PriceHistoryEntry[] = [];
+
+  for (const sub of subs) {
+    const merchant = normalizeMerchant(sub.name, providers).toLowerCase();
+    const providerName = sub.providerId ? PROVIDERS[sub.providerId]?.name : undefined;
+    const sameMerchant = (tx: Transaction) => !!tx.normalizedMerchant &&
+      (tx.normalizedMerchant.toLowerCase() === merchant || tx.normalizedMerchant === providerName);
+
+    const matches = txs.filter(tx =>
+      !tx.subscriptionId && !tx.ignored && tx.direction === "debit" &&
+      (sub.creditorId && tx.creditorId ? sameMandate(sub, sepaReferenceOf(tx)) : sameMerchant(tx))
+    );
+    if (matches.length === 0) continue;
+
+    await storage.linkTransactionsToSubscription(matches.map(tx => tx.id), sub.id, userId);
+    matches.forEach(tx => { tx.subscriptionId = sub.id; });
+
+    // Learn the mandate of a subscription matched by name, if its debits agree on one
+    if (!sub.creditorId) {
+      const contracts = new Set(matches.map(tx => sepaKey(sepaReferenceOf(tx))).filter(Boolean));
+      const latest = matches.filter(tx => tx.creditorId).sort((a, b) => b.date.localeCompare(a.date))[0];
+      if (contracts.size === 1 && latest) {
+        await storage.updateSubscription(sub.id, userId, {
+          creditorId: latest.creditorId,
+          mandateReference: latest.mandateReference,
+        });
+      }
+    }
+
+    const change = await recordPriceChange(userId, sub);
+    if (change) changes.push(change);
+  }
+
+  return changes;
+}
+
+// Pair refunds with the charges they pay back (across all imports of the user)
+async function recordRefunds(userId: string): Promise<void> {
+  const history = dedupeAcrossImports(await storage.getTransactions(userId, { ignored: false }));
+  const matches = matchRefunds(history, tx => merchantKey(tx, providers));
+
+  for (const { refund, charge } of matches) {
+    if (refund.refundOfId === charge.id) continue;
+    await storage.setRefundOf(refund.id, charge.id, userId);
+  }
+}
+
+// Run recurrence detection over stored transactions (prices in cents)
+export async function detectForTransactions(userId: string, txs: Transaction[]): Promise<RecurrenceCandidate<Transaction>[]> {
+  const existing = await storage.getSubscriptions(userId);
+  const candidates = detectRecurringPayments(txs, providers, existing);
+
+  candidates.forEach(candidate => {
+    candidate.subscription.price = Math.round(candidate.subscription.price);
+  });
+
+  return candidates;
+}
+
+// Store an uploaded file's rows, analyze them and move the job to completed/failed
+export async function importAndAnalyze(
+  userId: string,
+  fileName: string,
+  rows: ImportedRow[],
+  columnMapping?: ImportJob["columnMapping"]
+): Promise<ImportAnalysisResult> {
+  const job = await storage.createImportJob(userId, {
+    fileName,
+    status: "processing",
+    totalRows: rows.length,
+    columnMapping: columnMapping ?? null,
+  });
+
+  try {
+    // Rows an earlier, overlapping export already stored are not stored (or linked,
+    // or counted) again - the same result reanalyzeHistory gets by deduplicating
+    const known = new Set((await storage.getTransactions(userId)).map(transactionKey));
+    const fresh = toInsertTransactions(rows, job.id).filter(tx => !known.has(transactionKey(tx)));
+    const stored = await storage.createTransactions(userId, fresh);
+    await recordRefunds(userId);
+    const priceChanges = await trackExistingSubscriptions(userId, stored);
+    const candidates = await detectForTransactions(userId, stored);
+
+    const completed = await storage.updateImportJob(job.id, userId, {
+      status: "completed",
+      importedCount: stored.length,
+      suggestedCount: candidates.length,
+    });
+
+    return { job: completed ?? job, candidates, priceChanges };
+  } catch (error) {
+    await storage.updateImportJob(job.id, userId, { status: "failed" }).catch(() => {
+      // Job status is best effort once the import itself failed
+    });
+    throw error;
+  }
+}
+
+// Re-run detection over every stored transaction of the user, across all import jobs
+export async function reanalyzeHistory(userId: string): Promise<{
+  transactionCount: number;
+  candidates: RecurrenceCandidate<Transaction>[];
+  priceChanges: PriceHistoryEntry[];
+}> {
+  const stored = await storage.getTransactions(userId, { ignored: false });
+  const history = dedupeAcrossImports(stored);
+  await recordRefunds(userId);
+  const priceChanges = await trackExistingSubscriptions(userId, history);
+  const candidates = await detectForTransactions(userId, history);
+
+  return { transactionCount: history.length, candidates, priceChanges };
+}
+
+export interface InvoiceMatch extends InvoiceDetails {
+  subscriptionId: string;
+  subscriptionName: string;
+}
+
+// Names an invoice from this subscription would mention ("Telekom / T-Mobile" -> both parts)
+function invoiceNames(sub: Subscription): string[] {
+  const providerName = sub.providerId ? PROVIDERS[sub.providerId]?.name : undefined;
+  return [sub.name, ...(providerName ? [providerName, ...providerName.split("/")] : [])]
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length >= 3);
+}
+
+// A PDF that reads like an invoice and names exactly one tracked subscription.
+// Statements mention many providers and ambiguous invoices are left alone.
+export async function matchInvoiceToSubscription(userId: string, text: string): Promise<InvoiceMatch | null> {
+  if (!looksLikeInvoice(text)) return null;
+
+  const lower = text.toLowerCase();
+  const subs = await storage.getSubscriptions(userId);
+  const matches = subs.filter(sub => invoiceNames(sub).some(name => lower.includes(name)));
+  if (matches.length !== 1) return null;
+
+  return {
+    subscriptionId: matches[0].id,
+    subscriptionName: matches[0].name,
+    ...extractInvoiceDetails(text),
+  };
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startReminderScheduler } from "./reminders";
 import { createServer } from "http";
 
 const app = express();
@@ -93,6 +94,7 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startReminderScheduler();
     },
   );
 })();
@@ -0,0 +1,53 @@
+import nodemailer from "nodemailer";
+
+// Outgoing email behind a small transport interface so the delivery
+// mechanism can be swapped without touching the reminder logic.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Default when no SMTP server is configured: write the mail to the server log
+export class LogTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// SMTP delivery. Point SMTP_URL at a local stand-in (e.g. smtp://localhost:1025
+// for Mailpit/MailHog) during development, or at a real relay in production.
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(url: string, private from: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+export function createMailTransport(): MailTransport {
+  const url = process.env.SMTP_URL;
+  if (!url) return new LogTransport();
+  return new SmtpTransport(url, process.env.MAIL_FROM || "SubControl <reminders@subcontrol.local>");
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) transport = createMailTransport();
+  return transport;
+}
+
+// Swap the transport (e.g. for a different provider)
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
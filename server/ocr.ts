@@ -0,0 +1,76 @@
+import fs from "fs";
+import path from "path";
+import { PDFParse } from "pdf-parse";
+import { createWorker, OEM, type Worker } from "tesseract.js";
+
+// OCR for scanned (image-only) PDFs: every page is rendered to an image and read
+// by tesseract. The German and English traineddata files are loaded from disk
+// (TESSDATA_DIR, default data/tessdata) - nothing is downloaded at runtime.
+
+export interface OCRProgress {
+  page: number; // pages finished so far
+  pages: number;
+}
+
+const RENDER_SCALE = 2; // ~144 dpi, enough for statement print
+const LANGUAGES = ["deu", "eng"];
+
+export function tessdataDir(): string {
+  return process.env.TESSDATA_DIR || path.resolve("data", "tessdata");
+}
+
+// tesseract.js never settles createWorker when a language fails to load; it only
+// reports the error to errorHandler (and throws it uncaught without one, which
+// would end the server). Missing files are caught before a worker is spawned.
+async function startWorker(): Promise<Worker> {
+  const langPath = tessdataDir();
+  const missing = LANGUAGES.filter(lang => !fs.existsSync(path.join(langPath, `${lang}.traineddata`)));
+  if (missing.length > 0) {
+    throw new Error(`OCR language data missing in ${langPath}: ${missing.map(lang => `${lang}.traineddata`).join(", ")}`);
+  }
+
+  let failStart!: (error: Error) => void;
+  const startFailed = new Promise<never>((_, reject) => { failStart = reject; });
+  return Promise.race([
+    createWorker(LANGUAGES.join("+"), OEM.LSTM_ONLY, {
+      langPath,
+      gzip: false, // plain deu.traineddata / eng.traineddata
+      cacheMethod: "none",
+      // Later job failures reject their own call; this only matters while starting
+      errorHandler: error => failStart(new Error(String(error))),
+    }),
+    startFailed,
+  ]);
+}
+
+// Pages are rendered and recognized one at a time, so memory stays flat for long statements
+export async function recognizePDF(buffer: Buffer, onProgress?: (progress: OCRProgress) => void): Promise<string> {
+  // Both are created inside the try, so a worker that fails to start still
+  // releases the parser
+  let parser: PDFParse | undefined;
+  let worker: Worker | undefined;
+
+  try {
+    parser = new PDFParse({ data: new Uint8Array(buffer) });
+    worker = await startWorker();
+
+    const { total } = await parser.getInfo();
+    const pageTexts: string[] = [];
+    onProgress?.({ page: 0, pages: total });
+
+    for (let page = 1; page <= total; page++) {
+      const screenshot = await parser.getScreenshot({ partial: [page], scale: RENDER_SCALE, imageDataUrl: false });
+      const image = screenshot.pages[0];
+      if (image) {
+        const { data } = await worker.recognize(Buffer.from(image.data));
+        pageTexts.push(data.text);
+      }
+      onProgress?.({ page, pages: total });
+    }
+
+    return pageTexts.join("\n");
+  } finally {
+    await worker?.terminate();
+    await parser?.destroy();
+  }
+}
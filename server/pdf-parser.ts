@@ -1,12 +1,21 @@
+import type { Direction } from "@shared/direction";
+import type { StatementParser } from "./bank-parsers/common";
+import { sparkasseParser } from "./bank-parsers/sparkasse";
+import { dkbParser } from "./bank-parsers/dkb";
+import { ingParser } from "./bank-parsers/ing";
+import { n26Parser } from "./bank-parsers/n26";
+import { commerzbankParser } from "./bank-parsers/commerzbank";
+
 export interface ExtractedTransaction {
   date: string;
   description: string;
   amount: number;
   currency: string;
+  direction?: Direction; // set when the layout shows it; the general parser leaves it open
   raw: string;
 }
 
-// Extract transactions from PDF text
+// General parser: extract transactions from PDF text line by line
 export function extractTransactionsFromPDFText(input: any): ExtractedTransaction[] {
   // Normalize input to string (handle objects, arrays, or primitives)
   let text: string;
@@ -132,6 +141,90 @@ export function extractTransactionsFromPDFText(input: any): ExtractedTransaction
   return transactions;
 }
 
+// BANK STATEMENT PARSERS - layout-aware parsers for known banks, picked by the
+// statement header. Anything unrecognized goes through the general parser below.
+const statementParsers: StatementParser[] = [
+  sparkasseParser,
+  dkbParser,
+  ingParser,
+  n26Parser,
+  commerzbankParser,
+];
+
+// Add a parser for another bank (checked before the built-in ones)
+export function registerStatementParser(parser: StatementParser) {
+  statementParsers.unshift(parser);
+}
+
+export function detectStatementParser(text: string): StatementParser | undefined {
+  return statementParsers.find(parser => parser.detect(text));
+}
+
+export function extractStatementTransactions(text: string): { bank: string | null; transactions: ExtractedTransaction[] } {
+  const parser = detectStatementParser(text);
+  if (parser) {
+    const transactions = parser.parse(text);
+    console.log(`[DEV] ${parser.bank} statement: ${transactions.length} transactions`);
+    // A layout we only half recognize is better served by the general parser
+    if (transactions.length > 0) return { bank: parser.bank, transactions };
+  }
+  return { bank: null, transactions: extractTransactionsFromPDFText(text) };
+}
+
+export interface InvoiceDetails {
+  date: string | null; // YYYY-MM-DD
+  amount: number | null; // total in major units
+  currency: string;
+}
+
+// Invoices (Rechnung) rather than bank statements: a title keyword plus a total
+const INVOICE_TITLE = /\b(rechnung|invoice|bill|faktura)\b/i;
+const INVOICE_DATE_LABEL = /\b(rechnungsdatum|invoice date|datum|date)\b/i;
+const INVOICE_TOTAL_LABEL = /\b(rechnungsbetrag|gesamtbetrag|endbetrag|zu zahlen|summe|total|amount due)\b/i;
+
+const DATE_IN_LINE = /\b\d{1,2}[.\s]+(?:Januar|Februar|März|April|Mai|Juni|Juli|August|September|Oktober|November|Dezember)\s+\d{4}\b|\b\d{1,2}[.\/-]\d{1,2}[.\/-]\d{2,4}\b|\b\d{4}[.\/-]\d{1,2}[.\/-]\d{1,2}\b/i;
+const NUMBER = String.raw`(\d{1,3}(?:\.\d{3})*,\d{2}|\d{1,3}(?:,\d{3})*\.\d{2})(?!\d)`;
+const CURRENCY = String.raw`(EUR|€|USD|\$|GBP|£|CHF)`;
+const AMOUNT_IN_LINE = new RegExp(`${NUMBER}\\s*${CURRENCY}|${CURRENCY}\\s*${NUMBER}`, 'i');
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '€': 'EUR', '$': 'USD', '£': 'GBP' };
+
+function parseAmount(value: string): number {
+  // 1.234,56 (German) or 1,234.56 (English)
+  return value.includes(',') && value.lastIndexOf(',') > value.lastIndexOf('.')
+    ? parseFloat(value.replace(/\./g, '').replace(',', '.'))
+    : parseFloat(value.replace(/,/g, ''));
+}
+
+export function looksLikeInvoice(text: string): boolean {
+  return INVOICE_TITLE.test(text) && INVOICE_TOTAL_LABEL.test(text);
+}
+
+// Invoice date and total: prefer labelled lines, fall back to the first date and the largest amount
+export function extractInvoiceDetails(text: string): InvoiceDetails {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  
+  const dateLine = lines.find(line => INVOICE_DATE_LABEL.test(line) && DATE_IN_LINE.test(line))
+    ?? lines.find(line => DATE_IN_LINE.test(line));
+  const date = dateLine ? normalizeDate(dateLine.match(DATE_IN_LINE)![0]) : null;
+  
+  const amounts = lines.flatMap(line => {
+    const match = line.match(AMOUNT_IN_LINE);
+    if (!match) return [];
+    const symbol = (match[2] || match[3]).toUpperCase();
+    return [{
+      amount: parseAmount(match[1] || match[4]),
+      currency: CURRENCY_SYMBOLS[symbol] ?? symbol,
+      total: INVOICE_TOTAL_LABEL.test(line),
+    }];
+  });
+  const totals = amounts.filter(a => a.total);
+  const best = (totals.length > 0 ? totals : amounts).reduce<typeof amounts[number] | null>(
+    (max, a) => (!max || a.amount > max.amount ? a : max), null);
+  
+  return { date, amount: best?.amount ?? null, currency: best?.currency ?? 'EUR' };
+}
+
 // Normalize date to YYYY-MM-DD
 function normalizeDate(dateStr: string): string {
   const monthNames: Record<string, string> = {
@@ -0,0 +1,116 @@
+import { storage } from "./storage";
+import { getMailTransport } from "./mailer";
+import { calculateCancellationDeadline } from "@shared/contract-terms";
+import { describeInterval, parseDate, subscriptionInterval, todayISO } from "@shared/billing-dates";
+import { isTrial, paidPrice } from "@shared/trials";
+import type { Subscription, User } from "@shared/schema";
+
+// Reminder scheduler: creates a notification (in-app + email) once a
+// subscription's cancellation deadline - or, for a free trial, its conversion
+// into the paid plan - is within its reminder lead time.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function daysUntil(date: string, today: string): number {
+  return Math.round((parseDate(date).getTime() - parseDate(today).getTime()) / DAY_MS);
+}
+
+function relativeDay(days: number): string {
+  return days === 0 ? "today" : days === 1 ? "tomorrow" : `in ${days} days`;
+}
+
+interface Reminder {
+  type: "cancellation_deadline" | "trial_ending";
+  dueDate: string;
+  title: string;
+  message: string;
+}
+
+function deadlineReminder(subscription: Subscription, today: string): Reminder | null {
+  const { lastCancellationDate, contractEndDate } = calculateCancellationDeadline(subscription, today);
+  const days = daysUntil(lastCancellationDate, today);
+  if (days < 0 || days > subscription.reminderLeadDays) return null;
+
+  return {
+    type: "cancellation_deadline",
+    dueDate: lastCancellationDate,
+    title: `Cancel ${subscription.name} by ${lastCancellationDate}`,
+    message: `The last day to cancel ${subscription.name} is ${lastCancellationDate} (${relativeDay(days)}). ` +
+      `If you do not cancel by then, it renews after ${contractEndDate}.`,
+  };
+}
+
+function trialReminder(subscription: Subscription & { trialEndDate: string }, today: string): Reminder | null {
+  const days = daysUntil(subscription.trialEndDate, today);
+  if (days < 0 || days > subscription.reminderLeadDays) return null;
+
+  const price = `${(paidPrice(subscription) / 100).toFixed(2)} ${subscription.currency}`;
+  return {
+    type: "trial_ending",
+    dueDate: subscription.trialEndDate,
+    title: `${subscription.name} trial ends ${subscription.trialEndDate}`,
+    message: `Your free trial of ${subscription.name} turns into a paid plan ${relativeDay(days)} ` +
+      `(${price}, billed ${describeInterval(subscriptionInterval(subscription))}). Cancel before then if you do not want to keep it.`,
+  };
+}
+
+async function remindIfDue(subscription: Subscription, user: User, today: string): Promise<boolean> {
+  // Already cancelled, it just runs until the end of the term
+  if (subscription.status === "pending_cancellation") return false;
+
+  const reminder = isTrial(subscription) ? trialReminder(subscription, today) : deadlineReminder(subscription, today);
+  if (!reminder) return false;
+
+  // One reminder per deadline
+  if (await storage.findNotification(subscription.id, reminder.type, reminder.dueDate)) return false;
+
+  const { title, message } = reminder;
+  const notification = await storage.createNotification(user.id, {
+    subscriptionId: subscription.id,
+    type: reminder.type,
+    title,
+    message,
+    dueDate: reminder.dueDate,
+  });
+
+  try {
+    await getMailTransport().send({ to: user.email, subject: title, text: `Hi ${user.name},\n\n${message}\n` });
+    await storage.markNotificationEmailed(notification.id);
+  } catch (error: any) {
+    // The in-app notification still exists; the email is not retried
+    console.error("[DEV] Reminder email error:", error);
+  }
+
+  return true;
+}
+
+export async function runReminderCheck(today: string = todayISO()): Promise<number> {
+  const rows = await storage.getActiveSubscriptionsWithOwners();
+  let created = 0;
+
+  for (const { subscription, user } of rows) {
+    try {
+      if (await remindIfDue(subscription, user, today)) created++;
+    } catch (error: any) {
+      console.error(`[DEV] Reminder check failed for subscription ${subscription.id}:`, error);
+    }
+  }
+
+  return created;
+}
+
+// Check on startup and then periodically (REMINDER_INTERVAL_MINUTES, default hourly)
+export function startReminderScheduler(): NodeJS.Timeout {
+  const minutes = parseInt(process.env.REMINDER_INTERVAL_MINUTES || "60", 10);
+
+  const run = () => {
+    runReminderCheck()
+      .then(created => {
+        if (created > 0) console.log(`[reminders] created ${created} reminder(s)`);
+      })
+      .catch(error => console.error("[DEV] Reminder scheduler error:", error));
+  };
+
+  run();
+  return setInterval(run, minutes * 60 * 1000);
+}
@@ -1,18 +1,31 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type TransactionFilters } from "./storage";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, randomUUID, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import { insertSubscriptionSchema } from "@shared/schema";
+import { insertSubscriptionSchema, insertExchangeRateSchema, type ExchangeRate, type SubscriptionDocument } from "@shared/schema";
+import { buildPaymentHistory } from "@shared/payment-history";
+import { buildICSCalendar } from "@shared/calendar";
+import { todayISO } from "@shared/billing-dates";
+import { archivePause } from "@shared/pauses";
+import { parseECBRates, latestRates } from "@shared/currency";
+import { canTransition, isActiveStatus, isSubscriptionStatus, requestedStatus } from "@shared/lifecycle";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 import pkg from "pg";
 import multer from "multer";
-import { parsePDFBuffer, extractTransactionsFromPDFText, isScannedPDF } from "./pdf-parser";
+import { parsePDFBuffer, extractStatementTransactions, isScannedPDF } from "./pdf-parser";
+import { recognizePDF } from "./ocr";
+import { importAndAnalyze, importedRowSchema, matchInvoiceToSubscription, reanalyzeHistory } from "./import-analysis";
+import { subscriptionPaymentRecords } from "./transaction-history";
+import { rollForwardSubscriptions } from "./billing";
+import { buildSpendingAnalytics } from "./analytics";
+import { getBlobStore } from "./blob-store";
+import { DOCUMENT_TYPES, SAFEBOX_MIME_TYPES, documentKey, documentMetadata, matchesMimeType, readDocumentFile, safeboxQuotaBytes, safeboxUsageBytes, storedDocuments, writeDocumentFile } from "./safebox";
 const { Pool } = pkg;
 
 const scryptAsync = promisify(scrypt);
@@ -207,7 +220,7 @@ export async function registerRoutes(
   // SUBSCRIPTION ROUTES
   app.get("/api/subscriptions", requireAuth, async (req: any, res) => {
     try {
-      const subs = await storage.getSubscriptions(req.user.id);
+      const subs = await rollForwardSubscriptions(req.user.id, await storage.getSubscriptions(req.user.id));
       res.json(subs);
     } catch (error: any) {
       console.error("[DEV] Get subscriptions error:", error);
@@ -222,7 +235,18 @@ export async function registerRoutes(
         return res.status(400).json({ error: fromZodError(validation.error).message });
       }
       
-      const subscription = await storage.createSubscription(req.user.id, validation.data);
+      const status = validation.data.status ?? "active";
+      if (!isSubscriptionStatus(status)) {
+        return res.status(400).json({ error: `Unknown status "${status}"` });
+      }
+      
+      const subscription = await storage.createSubscription(req.user.id, {
+        ...validation.data,
+        documents: documentMetadata(validation.data.documents),
+        status,
+        active: isActiveStatus(status),
+      });
+      await storage.createSubscriptionEvent(req.user.id, { subscriptionId: subscription.id, toStatus: status, note: "Created" });
       res.status(201).json(subscription);
     } catch (error: any) {
       console.error("[DEV] Create subscription error:", error);
@@ -232,10 +256,55 @@ export async function registerRoutes(
 
   app.patch("/api/subscriptions/:id", requireAuth, async (req: any, res) => {
     try {
-      const updated = await storage.updateSubscription(req.params.id, req.user.id, req.body);
+      const existing = await storage.getSubscription(req.params.id, req.user.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Subscription not found" });
+      }
+      
+      // Status changes go through the lifecycle state machine; `active` follows the status.
+      // Documents are only changed through the Safebox endpoints (they own the stored files).
+      // Past pauses are kept here: replacing a pause must not bring back the charges it skipped.
+      const { status: _status, active: _active, statusNote, documents: _documents, pastPauses: _pastPauses, ...fields } = req.body;
+      const status = requestedStatus(existing.status, req.body);
+      if (!isSubscriptionStatus(status)) {
+        return res.status(400).json({ error: `Unknown status "${status}"` });
+      }
+      if (!canTransition(existing.status, status)) {
+        return res.status(400).json({ error: `Cannot change status from ${existing.status} to ${status}` });
+      }
+      
+      const pastPauses = archivePause(existing, fields.pauseStartDate, todayISO());
+      const updated = await storage.updateSubscription(req.params.id, req.user.id, {
+        ...fields,
+        ...(pastPauses ? { pastPauses } : {}),
+        status,
+        active: isActiveStatus(status),
+      });
       if (!updated) {
         return res.status(404).json({ error: "Subscription not found" });
       }
+      
+      if (status !== existing.status) {
+        await storage.createSubscriptionEvent(req.user.id, {
+          subscriptionId: updated.id,
+          fromStatus: existing.status,
+          toStatus: status,
+          note: typeof statusNote === "string" && statusNote ? statusNote : null,
+        });
+      }
+      
+      // Keep a dated record of manual price edits next to the import-detected ones
+      if (typeof req.body.price === 'number' && req.body.price !== existing.price) {
+        await storage.createPriceHistoryEntry(req.user.id, {
+          subscriptionId: updated.id,
+          date: new Date().toISOString().split("T")[0],
+          oldPrice: existing.price,
+          newPrice: updated.price,
+          currency: updated.currency,
+          source: "manual",
+        });
+      }
+      
       res.json(updated);
     } catch (error: any) {
       console.error("[DEV] Update subscription error:", error);
@@ -243,12 +312,30 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/subscriptions/:id/events", requireAuth, async (req: any, res) => {
+    try {
+      const subscription = await storage.getSubscription(req.params.id, req.user.id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Subscription not found" });
+      }
+      
+      res.json(await storage.getSubscriptionEvents(subscription.id, req.user.id));
+    } catch (error: any) {
+      console.error("[DEV] Get subscription events error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch subscription events" });
+    }
+  });
+
   app.delete("/api/subscriptions/:id", requireAuth, async (req: any, res) => {
     try {
+      const existing = await storage.getSubscription(req.params.id, req.user.id);
       const deleted = await storage.deleteSubscription(req.params.id, req.user.id);
-      if (!deleted) {
+      if (!deleted || !existing) {
         return res.status(404).json({ error: "Subscription not found" });
       }
+      
+      // Drop the Safebox files along with the row
+      await Promise.all(storedDocuments(existing).map(doc => getBlobStore().delete(doc.storageKey!)));
       res.json({ success: true });
     } catch (error: any) {
       console.error("[DEV] Delete subscription error:", error);
@@ -256,6 +343,424 @@ export async function registerRoutes(
     }
   });
 
+  // SAFEBOX ROUTES - document files attached to a subscription's documents
+  const documentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+    fileFilter: (req, file, cb) => {
+      if (SAFEBOX_MIME_TYPES.includes(file.mimetype)) {
+        cb(null, true);
+      } else {
+        cb(new Error('Only PDF, PNG, JPEG or WebP files are allowed'));
+      }
+    }
+  });
+
+  app.get("/api/safebox/usage", requireAuth, async (req: any, res) => {
+    try {
+      const subs = await storage.getSubscriptions(req.user.id);
+      res.json({ used: safeboxUsageBytes(subs), quota: safeboxQuotaBytes() });
+    } catch (error: any) {
+      console.error("[DEV] Safebox usage error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch Safebox usage" });
+    }
+  });
+
+  app.post("/api/subscriptions/:id/documents", requireAuth, documentUpload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+      if (!matchesMimeType(req.file.buffer, req.file.mimetype)) {
+        return res.status(400).json({ error: "The file content does not match its type" });
+      }
+      
+      const subscription = await storage.getSubscription(req.params.id, req.user.id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Subscription not found" });
+      }
+      
+      const type = DOCUMENT_TYPES.includes(req.body.type) ? req.body.type : "other";
+      const used = safeboxUsageBytes(await storage.getSubscriptions(req.user.id));
+      if (used + req.file.size > safeboxQuotaBytes()) {
+        return res.status(413).json({ error: "Safebox storage quota exceeded" });
+      }
+      
+      const id = randomUUID();
+      const document: SubscriptionDocument = {
+        id,
+        name: req.body.name || req.file.originalname,
+        type,
+        date: /^\d{4}-\d{2}-\d{2}$/.test(req.body.date ?? "") ? req.body.date : new Date().toISOString().split("T")[0],
+        ...(req.body.notes ? { notes: req.body.notes } : {}),
+        ...(req.body.amount && Number.isInteger(Number(req.body.amount)) ? { amount: Number(req.body.amount), currency: req.body.currency || subscription.currency } : {}),
+        status: "uploaded",
+        storageKey: documentKey(req.user.id, id),
+        mimeType: req.file.mimetype,
+        size: req.file.size,
+        uploadedAt: new Date().toISOString(),
+        encrypted: true,
+      };
+      
+      await writeDocumentFile(req.user.id, document, req.file.buffer);
+      await storage.updateSubscription(subscription.id, req.user.id, {
+        documents: [...(subscription.documents ?? []), document],
+      });
+      res.status(201).json(document);
+    } catch (error: any) {
+      console.error("[DEV] Upload document error:", error);
+      res.status(500).json({ error: error.message || "Failed to upload document" });
+    }
+  });
+
+  app.get("/api/subscriptions/:id/documents/:documentId", requireAuth, async (req: any, res) => {
+    try {
+      const subscription = await storage.getSubscription(req.params.id, req.user.id);
+      const document = subscription?.documents?.find(doc => doc.id === req.params.documentId);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      
+      const data = await readDocumentFile(req.user.id, document);
+      if (!data) {
+        return res.status(404).json({ error: "No file stored for this document" });
+      }
+      
+      res.attachment(document.name);
+      res.type(document.mimeType || "application/octet-stream");
+      res.send(data);
+    } catch (error: any) {
+      console.error("[DEV] Download document error:", error);
+      res.status(500).json({ error: error.message || "Failed to download document" });
+    }
+  });
+
+  app.delete("/api/subscriptions/:id/documents/:documentId", requireAuth, async (req: any, res) => {
+    try {
+      const subscription = await storage.getSubscription(req.params.id, req.user.id);
+      const document = subscription?.documents?.find(doc => doc.id === req.params.documentId);
+      if (!subscription || !document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      
+      await storage.updateSubscription(subscription.id, req.user.id, {
+        documents: (subscription.documents ?? []).filter(doc => doc.id !== document.id),
+      });
+      if (document.storageKey) {
+        await getBlobStore().delete(document.storageKey);
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("[DEV] Delete document error:", error);
+      res.status(500).json({ error: error.message || "Failed to delete document" });
+    }
+  });
+
+  // PAYMENT HISTORY ROUTES - built from transactions linked to a subscription
+  app.get("/api/subscriptions/:id/payments", requireAuth, async (req: any, res) => {
+    try {
+      const subscription = await storage.getSubscription(req.params.id, req.user.id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Subscription not found" });
+      }
+      
+      const txs = await storage.getTransactions(req.user.id, { ignored: false });
+      res.json(buildPaymentHistory(subscription, subscriptionPaymentRecords(subscription.id, txs)));
+    } catch (error: any) {
+      console.error("[DEV] Get payment history error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch payment history" });
+    }
+  });
+  
+  app.get("/api/payments/summary", requireAuth, async (req: any, res) => {
+    try {
+      const [subs, txs] = await Promise.all([
+        storage.getSubscriptions(req.user.id),
+        storage.getTransactions(req.user.id, { ignored: false }),
+      ]);
+      
+      const summary: Record<string, {
+        totalPaid: number;
+        paymentCount: number;
+        missedCount: number;
+        lastExpectedMissed: boolean;
+        extraCount: number;
+        lastPaymentDate: string | null;
+      }> = {};
+      
+      for (const sub of subs) {
+        const records = subscriptionPaymentRecords(sub.id, txs);
+        if (records.length === 0) continue;
+        
+        const history = buildPaymentHistory(sub, records);
+        summary[sub.id] = {
+          totalPaid: history.totalPaid,
+          paymentCount: history.payments.length,
+          missedCount: history.missed.length,
+          lastExpectedMissed: history.lastExpectedMissed,
+          extraCount: history.extra.length,
+          lastPaymentDate: history.payments[history.payments.length - 1]?.date ?? null,
+        };
+      }
+      
+      res.json(summary);
+    } catch (error: any) {
+      console.error("[DEV] Payment summary error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch payment summary" });
+    }
+  });
+
+  // PRICE HISTORY ROUTES
+  app.get("/api/subscriptions/:id/price-history", requireAuth, async (req: any, res) => {
+    try {
+      const subscription = await storage.getSubscription(req.params.id, req.user.id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Subscription not found" });
+      }
+      
+      const history = await storage.getPriceHistory(subscription.id, req.user.id);
+      res.json(history);
+    } catch (error: any) {
+      console.error("[DEV] Get price history error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch price history" });
+    }
+  });
+  
+  app.get("/api/price-changes", requireAuth, async (req: any, res) => {
+    try {
+      const days = Math.max(1, parseInt(req.query.days as string) || 90);
+      const since = new Date();
+      since.setDate(since.getDate() - days);
+      
+      const changes = await storage.getRecentPriceChanges(req.user.id, since.toISOString().split("T")[0]);
+      res.json(changes);
+    } catch (error: any) {
+      console.error("[DEV] Get price changes error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch price changes" });
+    }
+  });
+
+  // CALENDAR FEED - secret-token URL so calendar apps can subscribe without a session
+  const calendarFeedPath = (token: string) => `/api/calendar/${token}.ics`;
+
+  app.get("/api/calendar/token", requireAuth, async (req: any, res) => {
+    try {
+      const token = await storage.getCalendarToken(req.user.id);
+      res.json(token
+        ? { url: calendarFeedPath(token.token), createdAt: token.createdAt, lastAccessedAt: token.lastAccessedAt }
+        : null);
+    } catch (error: any) {
+      console.error("[DEV] Get calendar token error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch calendar feed" });
+    }
+  });
+
+  app.post("/api/calendar/token", requireAuth, async (req: any, res) => {
+    try {
+      const token = await storage.replaceCalendarToken(req.user.id, randomBytes(24).toString("base64url"));
+      res.status(201).json({ url: calendarFeedPath(token.token), createdAt: token.createdAt, lastAccessedAt: null });
+    } catch (error: any) {
+      console.error("[DEV] Create calendar token error:", error);
+      res.status(500).json({ error: error.message || "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete("/api/calendar/token", requireAuth, async (req: any, res) => {
+    try {
+      const revoked = await storage.revokeCalendarToken(req.user.id);
+      if (!revoked) {
+        return res.status(404).json({ error: "No calendar feed to revoke" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("[DEV] Revoke calendar token error:", error);
+      res.status(500).json({ error: error.message || "Failed to revoke calendar feed" });
+    }
+  });
+
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const token = await storage.getCalendarTokenByToken(req.params.token);
+      if (!token) {
+        return res.status(404).json({ error: "Calendar feed not found" });
+      }
+      
+      const subs = await storage.getSubscriptions(token.userId);
+      const ics = buildICSCalendar(subs.map(sub => ({
+        ...sub,
+        price: sub.price / 100,
+        priceAfterTrial: sub.priceAfterTrial === null ? null : sub.priceAfterTrial / 100,
+      })));
+      await storage.touchCalendarToken(token.id);
+      
+      res.set("Content-Type", "text/calendar; charset=utf-8");
+      res.set("Cache-Control", "no-cache");
+      res.send(ics);
+    } catch (error: any) {
+      console.error("[DEV] Calendar feed error:", error);
+      res.status(500).json({ error: error.message || "Failed to build calendar feed" });
+    }
+  });
+
+  // SPENDING ANALYTICS
+  app.get("/api/analytics", requireAuth, async (req: any, res) => {
+    try {
+      const months = Math.min(120, Math.max(1, parseInt(req.query.months as string) || 24));
+      res.json(await buildSpendingAnalytics(req.user.id, months));
+    } catch (error: any) {
+      console.error("[DEV] Get analytics error:", error);
+      res.status(500).json({ error: error.message || "Failed to build analytics" });
+    }
+  });
+
+  // CURRENCY SETTINGS & EXCHANGE RATES
+  const toRateResponse = (rate: ExchangeRate) => ({ ...rate, rate: Number(rate.rate) });
+
+  app.patch("/api/user/settings", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        baseCurrency: z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code"),
+      }).partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: fromZodError(validation.error).message });
+      }
+      
+      const updated = await storage.updateUser(req.user.id, validation.data);
+      if (!updated) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const { password: _, ...userWithoutPassword } = updated;
+      res.json({ user: userWithoutPassword });
+    } catch (error: any) {
+      console.error("[DEV] Update settings error:", error);
+      res.status(500).json({ error: error.message || "Failed to update settings" });
+    }
+  });
+
+  app.get("/api/exchange-rates", requireAuth, async (req: any, res) => {
+    try {
+      const [user, rates] = await Promise.all([
+        storage.getUser(req.user.id),
+        storage.getExchangeRates(req.user.id),
+      ]);
+      res.json({ baseCurrency: user?.baseCurrency ?? "EUR", rates: rates.map(toRateResponse) });
+    } catch (error: any) {
+      console.error("[DEV] Get exchange rates error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch exchange rates" });
+    }
+  });
+
+  app.post("/api/exchange-rates", requireAuth, async (req: any, res) => {
+    try {
+      const validation = insertExchangeRateSchema.safeParse({
+        date: new Date().toISOString().split("T")[0],
+        ...req.body,
+        source: "manual",
+      });
+      if (!validation.success) {
+        return res.status(400).json({ error: fromZodError(validation.error).message });
+      }
+      
+      const [rate] = await storage.upsertExchangeRates(req.user.id, [validation.data]);
+      res.status(201).json(toRateResponse(rate));
+    } catch (error: any) {
+      console.error("[DEV] Create exchange rate error:", error);
+      res.status(500).json({ error: error.message || "Failed to save exchange rate" });
+    }
+  });
+
+  const rateUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit (full ECB history)
+    fileFilter: (req, file, cb) => {
+      const allowed = ['text/xml', 'application/xml', 'text/csv', 'application/vnd.ms-excel'];
+      if (allowed.includes(file.mimetype) || /\.(xml|csv)$/i.test(file.originalname)) {
+        cb(null, true);
+      } else {
+        cb(new Error('Only ECB XML or CSV files are allowed'));
+      }
+    }
+  });
+
+  app.post("/api/exchange-rates/import", requireAuth, rateUpload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No rate file uploaded" });
+      }
+      
+      // Keep only the newest rate per currency (history files hold decades of rates)
+      const parsed = parseECBRates(req.file.buffer.toString("utf-8"));
+      const newest = latestRates(parsed);
+      const newestDate: Record<string, string> = {};
+      parsed.forEach(entry => {
+        if (!newestDate[entry.currency] || entry.date > newestDate[entry.currency]) newestDate[entry.currency] = entry.date;
+      });
+      
+      const entries = Object.keys(newestDate).map(currency => ({
+        currency,
+        rate: String(newest[currency]),
+        date: newestDate[currency],
+        source: "ecb",
+      }));
+      if (entries.length === 0) {
+        return res.status(400).json({ error: "No exchange rates found in file" });
+      }
+      
+      const saved = await storage.upsertExchangeRates(req.user.id, entries);
+      res.json({ importedCount: saved.length, rates: saved.map(toRateResponse) });
+    } catch (error: any) {
+      console.error("[DEV] Import exchange rates error:", error);
+      res.status(500).json({ error: error.message || "Failed to import exchange rates" });
+    }
+  });
+
+  app.delete("/api/exchange-rates/:id", requireAuth, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteExchangeRate(req.params.id, req.user.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Exchange rate not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("[DEV] Delete exchange rate error:", error);
+      res.status(500).json({ error: error.message || "Failed to delete exchange rate" });
+    }
+  });
+
+  // NOTIFICATION ENDPOINTS
+  app.get("/api/notifications", requireAuth, async (req: any, res) => {
+    try {
+      const list = await storage.getNotifications(req.user.id, req.query.unread === "true");
+      res.json(list);
+    } catch (error: any) {
+      console.error("[DEV] Get notifications error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req: any, res) => {
+    try {
+      const count = await storage.markAllNotificationsRead(req.user.id);
+      res.json({ success: true, count });
+    } catch (error: any) {
+      console.error("[DEV] Mark all notifications read error:", error);
+      res.status(500).json({ error: error.message || "Failed to update notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req: any, res) => {
+    try {
+      const updated = await storage.markNotificationRead(req.params.id, req.user.id);
+      if (!updated) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("[DEV] Mark notification read error:", error);
+      res.status(500).json({ error: error.message || "Failed to update notification" });
+    }
+  });
+
   // CSV IMPORT ENDPOINTS
   app.post("/api/import/analyze", requireAuth, async (req: any, res) => {
     try {
@@ -265,17 +770,27 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid data format" });
       }
       
-      // Store transactions in database for future re-analysis
-      const importJob = await storage.createImportJob(req.user.id, {
-        fileName: req.body.fileName || 'upload.csv',
-        status: 'processing',
-        totalRows: transactions.length,
-        columnMapping,
-      });
+      const validation = z.array(importedRowSchema).safeParse(transactions);
+      if (!validation.success) {
+        return res.status(400).json({ error: fromZodError(validation.error).message });
+      }
+      
+      // Store transactions for future re-analysis and run detection server-side
+      const { job, candidates, priceChanges } = await importAndAnalyze(
+        req.user.id,
+        req.body.fileName || 'upload.csv',
+        validation.data,
+        columnMapping
+      );
       
       res.json({ 
-        jobId: importJob.id,
-        message: `Processing ${transactions.length} transactions` 
+        jobId: job.id,
+        status: job.status,
+        importedCount: job.importedCount,
+        suggestedCount: job.suggestedCount,
+        candidates,
+        priceChanges,
+        message: `Processed ${job.importedCount} transactions` 
       });
     } catch (error: any) {
       console.error("[DEV] CSV analyze error:", error);
@@ -283,6 +798,23 @@ export async function registerRoutes(
     }
   });
   
+  app.post("/api/import/reanalyze", requireAuth, async (req: any, res) => {
+    try {
+      // Combine all uploaded files into one history so long intervals (e.g. yearly) show up
+      const { transactionCount, candidates, priceChanges } = await reanalyzeHistory(req.user.id);
+      
+      res.json({
+        transactionCount,
+        suggestedCount: candidates.length,
+        candidates,
+        priceChanges,
+      });
+    } catch (error: any) {
+      console.error("[DEV] Re-analysis error:", error);
+      res.status(500).json({ error: error.message || "Re-analysis failed" });
+    }
+  });
+  
   app.get("/api/import/jobs", requireAuth, async (req: any, res) => {
     try {
       const jobs = await storage.getImportJobs(req.user.id);
@@ -293,6 +825,87 @@ export async function registerRoutes(
     }
   });
   
+  // TRANSACTION REVIEW ROUTES
+  app.get("/api/transactions", requireAuth, async (req: any, res) => {
+    try {
+      const { importJobId, subscriptionId, status, search } = req.query;
+      
+      const filters: TransactionFilters = {
+        importJobId: typeof importJobId === 'string' ? importJobId : undefined,
+        subscriptionId: typeof subscriptionId === 'string' ? subscriptionId : undefined,
+        search: typeof search === 'string' && search.trim() ? search.trim() : undefined,
+      };
+      
+      // status: linked | unlinked | ignored (default: everything)
+      if (status === 'linked') {
+        filters.linked = true;
+        filters.ignored = false;
+      } else if (status === 'unlinked') {
+        filters.linked = false;
+        filters.ignored = false;
+      } else if (status === 'ignored') {
+        filters.ignored = true;
+      }
+      
+      const txs = await storage.getTransactions(req.user.id, filters);
+      res.json(txs);
+    } catch (error: any) {
+      console.error("[DEV] Get transactions error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch transactions" });
+    }
+  });
+  
+  app.post("/api/transactions/:id/link", requireAuth, async (req: any, res) => {
+    try {
+      const { subscriptionId } = req.body;
+      if (!subscriptionId || typeof subscriptionId !== 'string') {
+        return res.status(400).json({ error: "subscriptionId is required" });
+      }
+      
+      const subscription = await storage.getSubscription(subscriptionId, req.user.id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Subscription not found" });
+      }
+      
+      const linked = await storage.linkTransactionToSubscription(req.params.id, subscriptionId, req.user.id);
+      if (!linked) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      res.json(await storage.getTransaction(req.params.id, req.user.id));
+    } catch (error: any) {
+      console.error("[DEV] Link transaction error:", error);
+      res.status(500).json({ error: error.message || "Failed to link transaction" });
+    }
+  });
+  
+  app.post("/api/transactions/:id/unlink", requireAuth, async (req: any, res) => {
+    try {
+      const unlinked = await storage.unlinkTransaction(req.params.id, req.user.id);
+      if (!unlinked) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      res.json(await storage.getTransaction(req.params.id, req.user.id));
+    } catch (error: any) {
+      console.error("[DEV] Unlink transaction error:", error);
+      res.status(500).json({ error: error.message || "Failed to unlink transaction" });
+    }
+  });
+  
+  app.post("/api/transactions/:id/ignore", requireAuth, async (req: any, res) => {
+    try {
+      // Ignored rows are left out of future detection; { ignored: false } restores them
+      const ignored = req.body?.ignored !== false;
+      const updated = await storage.ignoreTransaction(req.params.id, req.user.id, ignored);
+      if (!updated) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      res.json(await storage.getTransaction(req.params.id, req.user.id));
+    } catch (error: any) {
+      console.error("[DEV] Ignore transaction error:", error);
+      res.status(500).json({ error: error.message || "Failed to ignore transaction" });
+    }
+  });
+  
   // PDF IMPORT ENDPOINTS
   const upload = multer({ 
     storage: multer.memoryStorage(),
@@ -331,16 +944,21 @@ export async function registerRoutes(
         });
       }
       
-      // Extract transactions from text - pass the text directly
-      const transactions = extractTransactionsFromPDFText(pdfData.text);
+      // Extract transactions - with the bank's own parser when the header is recognized
+      const { bank, transactions } = extractStatementTransactions(pdfData.text);
       
       console.log("[DEV] Extracted", transactions.length, "transactions from PDF");
       
+      // A single-provider invoice can be kept in that subscription's Safebox
+      const invoice = await matchInvoiceToSubscription(req.user.id, pdfData.text);
+      
       res.json({
         transactions,
         isScanned: false,
         rawText: pdfData.text,
         numPages: pdfData.numPages,
+        bank,
+        invoice,
       });
     } catch (error: any) {
       console.error("[DEV] PDF parse error:", error);
@@ -359,24 +977,31 @@ export async function registerRoutes(
     }
   });
   
+  // Scanned PDFs. The response is newline-delimited JSON: a {"type":"progress"} line per
+  // recognized page, then one {"type":"result"} line (or {"type":"error"} if OCR failed).
   app.post("/api/import/ocr-pdf", requireAuth, upload.single('pdf'), async (req: any, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No PDF file uploaded" });
+    }
+    
+    console.log("[DEV] OCR requested for:", req.file.originalname);
+    
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.setHeader("Cache-Control", "no-cache");
+    const send = (message: Record<string, unknown>) => res.write(JSON.stringify(message) + "\n");
+    
     try {
-      if (!req.file) {
-        return res.status(400).json({ error: "No PDF file uploaded" });
-      }
-      
-      console.log("[DEV] OCR requested for:", req.file.originalname);
+      const text = await recognizePDF(req.file.buffer, progress => send({ type: "progress", ...progress }));
+      const { bank, transactions } = extractStatementTransactions(text);
+      console.log("[DEV] OCR extracted", transactions.length, "transactions");
       
-      // For now, return a message that OCR is not yet implemented server-side
-      // In a full implementation, we'd use pdf2pic + tesseract here
-      res.json({
-        text: "",
-        message: "Server-side OCR is not yet implemented. Please try a text-based PDF or use a different export format."
-      });
+      const invoice = await matchInvoiceToSubscription(req.user.id, text);
+      send({ type: "result", text, transactions, bank, invoice });
     } catch (error: any) {
       console.error("[DEV] OCR error:", error);
-      res.status(500).json({ error: "OCR processing failed", details: error.message });
+      send({ type: "error", error: "OCR processing failed", details: error.message });
     }
+    res.end();
   });
 
   // MIGRATION ENDPOINT - Import local data to server
@@ -391,8 +1016,15 @@ export async function registerRoutes(
       for (const sub of localSubs) {
         try {
           const validation = insertSubscriptionSchema.safeParse(sub);
-          if (validation.success) {
-            await storage.createSubscription(req.user.id, validation.data);
+          const status = validation.success ? validation.data.status ?? "active" : null;
+          if (validation.success && isSubscriptionStatus(status)) {
+            const created = await storage.createSubscription(req.user.id, {
+              ...validation.data,
+              documents: documentMetadata(validation.data.documents),
+              status,
+              active: isActiveStatus(status),
+            });
+            await storage.createSubscriptionEvent(req.user.id, { subscriptionId: created.id, toStatus: status, note: "Synced from this device" });
             imported++;
           }
         } catch (e) {
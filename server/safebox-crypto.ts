@@ -0,0 +1,96 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Envelope encryption for Safebox files. Every user has a random data key that
+// encrypts their files with AES-256-GCM; the data key itself is stored wrapped
+// (AES-256-GCM again) by the server master key from SAFEBOX_MASTER_KEY. Rotating
+// the master key only re-wraps the data keys - the files stay as they are.
+//
+//   wrapped key: "<master key id>:<base64 iv|tag|ciphertext>"
+//   file blob:   version byte | iv | tag | ciphertext
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const BLOB_VERSION = 1;
+
+export interface MasterKeys {
+  current: Buffer;
+  previous?: Buffer; // still accepted for unwrapping while keys are rotated
+}
+
+function parseMasterKey(value: string, name: string): Buffer {
+  const key = Buffer.from(value, "base64");
+  if (key.length !== 32) {
+    throw new Error(`${name} must be a base64-encoded 32-byte key`);
+  }
+  return key;
+}
+
+// Generate one with: openssl rand -base64 32
+export function masterKeysFromEnv(): MasterKeys {
+  const current = process.env.SAFEBOX_MASTER_KEY;
+  if (!current) {
+    throw new Error("SAFEBOX_MASTER_KEY is not set - Safebox files cannot be encrypted");
+  }
+  const previous = process.env.SAFEBOX_PREVIOUS_MASTER_KEY;
+  return {
+    current: parseMasterKey(current, "SAFEBOX_MASTER_KEY"),
+    previous: previous ? parseMasterKey(previous, "SAFEBOX_PREVIOUS_MASTER_KEY") : undefined,
+  };
+}
+
+// Short fingerprint stored with each wrapped key, so we know which master key wrapped it
+export function masterKeyId(key: Buffer): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 8);
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  if (aad) cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer, aad?: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  if (aad) decipher.setAAD(aad);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+export function generateDataKey(): Buffer {
+  return randomBytes(32);
+}
+
+export function wrapDataKey(dataKey: Buffer, master: Buffer): string {
+  return `${masterKeyId(master)}:${seal(master, dataKey).toString("base64")}`;
+}
+
+export function isWrappedWith(wrapped: string, master: Buffer): boolean {
+  return wrapped.split(":")[0] === masterKeyId(master);
+}
+
+export function unwrapDataKey(wrapped: string, masters: MasterKeys): Buffer {
+  const [id, payload] = wrapped.split(":");
+  const master = [masters.current, masters.previous].find(key => key && masterKeyId(key) === id);
+  if (!master || !payload) {
+    throw new Error("Safebox key was wrapped with an unknown master key");
+  }
+  return open(master, Buffer.from(payload, "base64"));
+}
+
+// The storage key is bound in as associated data, so a blob cannot be swapped
+// for another document's blob without failing to decrypt
+export function encryptBlob(data: Buffer, dataKey: Buffer, storageKey: string): Buffer {
+  return Buffer.concat([Buffer.from([BLOB_VERSION]), seal(dataKey, data, Buffer.from(storageKey))]);
+}
+
+export function decryptBlob(blob: Buffer, dataKey: Buffer, storageKey: string): Buffer {
+  if (blob[0] !== BLOB_VERSION) {
+    throw new Error(`Unsupported Safebox blob version ${blob[0]}`);
+  }
+  return open(dataKey, blob.subarray(1), Buffer.from(storageKey));
+}
@@ -0,0 +1,96 @@
+import type { Subscription, SubscriptionDocument } from "@shared/schema";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-store";
+import {
+  masterKeysFromEnv, generateDataKey, wrapDataKey, unwrapDataKey, isWrappedWith, encryptBlob, decryptBlob,
+} from "./safebox-crypto";
+
+// Safebox: contracts, confirmations and invoices uploaded to a subscription.
+// The files go to the blob store, their metadata into subscription.documents.
+
+export const SAFEBOX_MIME_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/webp"];
+
+export const DOCUMENT_TYPES = ["contract", "confirmation", "invoice", "other"];
+
+// Per-user storage limit, SAFEBOX_QUOTA_MB (default 100 MB)
+export function safeboxQuotaBytes(): number {
+  const mb = Number(process.env.SAFEBOX_QUOTA_MB);
+  return (Number.isFinite(mb) && mb > 0 ? mb : 100) * 1024 * 1024;
+}
+
+export function safeboxUsageBytes(subs: Subscription[]): number {
+  return subs.reduce((sum, sub) =>
+    sum + (sub.documents ?? []).reduce((docSum, doc) => docSum + (doc.size ?? 0), 0), 0);
+}
+
+export function documentKey(userId: string, documentId: string): string {
+  return `${userId}/${documentId}`;
+}
+
+export function storedDocuments(sub: Subscription): SubscriptionDocument[] {
+  return (sub.documents ?? []).filter(doc => !!doc.storageKey);
+}
+
+// Documents sent in by a client (new or synced subscriptions) never point at
+// stored files - those only come from an upload
+export function documentMetadata(documents: unknown): SubscriptionDocument[] {
+  if (!Array.isArray(documents)) return [];
+  return documents.map(({ storageKey, mimeType, size, uploadedAt, encrypted, ...meta }: SubscriptionDocument) => meta);
+}
+
+// The declared MIME type comes from the browser; check the file starts like one
+export function matchesMimeType(data: Buffer, mimeType: string): boolean {
+  const startsWith = (bytes: number[], offset = 0) => bytes.every((b, i) => data[offset + i] === b);
+  switch (mimeType) {
+    case "application/pdf":
+      return startsWith([0x25, 0x50, 0x44, 0x46]); // %PDF
+    case "image/png":
+      return startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    case "image/jpeg":
+      return startsWith([0xff, 0xd8, 0xff]);
+    case "image/webp":
+      return startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8); // RIFF....WEBP
+    default:
+      return false;
+  }
+}
+
+// The user's data key, created on their first upload
+async function userDataKey(userId: string): Promise<Buffer> {
+  const masters = masterKeysFromEnv();
+  const existing = await storage.getSafeboxKey(userId);
+  const key = existing ?? await storage.createSafeboxKey(userId, wrapDataKey(generateDataKey(), masters.current));
+  return unwrapDataKey(key.wrappedKey, masters);
+}
+
+// Files are encrypted before they reach the blob store
+export async function writeDocumentFile(userId: string, document: SubscriptionDocument, data: Buffer): Promise<void> {
+  const dataKey = await userDataKey(userId);
+  await getBlobStore().put(document.storageKey!, encryptBlob(data, dataKey, document.storageKey!));
+}
+
+// Null if the blob is missing. Files stored before encryption are returned as they are.
+export async function readDocumentFile(userId: string, document: SubscriptionDocument): Promise<Buffer | null> {
+  if (!document.storageKey) return null;
+  const blob = await getBlobStore().get(document.storageKey);
+  if (!blob || !document.encrypted) return blob;
+  return decryptBlob(blob, await userDataKey(userId), document.storageKey);
+}
+
+// Re-wrap every data key under the current master key (after moving the old one
+// to SAFEBOX_PREVIOUS_MASTER_KEY). Keys already under the current one are skipped,
+// so the command can be re-run after an interruption.
+export async function rotateSafeboxKeys(): Promise<{ rotated: number; skipped: number }> {
+  const masters = masterKeysFromEnv();
+  let rotated = 0;
+  let skipped = 0;
+  for (const key of await storage.getSafeboxKeys()) {
+    if (isWrappedWith(key.wrappedKey, masters.current)) {
+      skipped++;
+      continue;
+    }
+    await storage.rewrapSafeboxKey(key.id, wrapDataKey(unwrapDataKey(key.wrappedKey, masters), masters.current));
+    rotated++;
+  }
+  return { rotated, skipped };
+}
@@ -1,18 +1,33 @@
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, desc, gte, sql, isNull, isNotNull, ilike, inArray, type SQL } from "drizzle-orm";
 import { db } from "../db/index";
 import { 
-  users, subscriptions, importJobs, transactions,
+  users, subscriptions, importJobs, transactions, priceHistory, notifications, calendarTokens, exchangeRates, subscriptionEvents, safeboxKeys,
   type User, type InsertUser, 
   type Subscription, type InsertSubscription,
   type ImportJob, type InsertImportJob,
-  type Transaction, type InsertTransaction
+  type Transaction, type InsertTransaction,
+  type PriceHistoryEntry, type InsertPriceHistory,
+  type Notification, type InsertNotification,
+  type CalendarToken,
+  type ExchangeRate, type InsertExchangeRate,
+  type SubscriptionEvent, type InsertSubscriptionEvent,
+  type SafeboxKey
 } from "@shared/schema";
 
+export interface TransactionFilters {
+  importJobId?: string;
+  subscriptionId?: string;
+  linked?: boolean;
+  ignored?: boolean;
+  search?: string;
+}
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<Pick<InsertUser, "name" | "baseCurrency">>): Promise<User | undefined>;
   
   // Subscription methods
   getSubscriptions(userId: string): Promise<Subscription[]>;
@@ -28,9 +43,49 @@ export interface IStorage {
   
   // Transaction methods
   createTransactions(userId: string, transactions: InsertTransaction[]): Promise<Transaction[]>;
-  getTransactions(userId: string, importJobId?: string): Promise<Transaction[]>;
+  getTransactions(userId: string, filters?: TransactionFilters): Promise<Transaction[]>;
+  getTransaction(id: string, userId: string): Promise<Transaction | undefined>;
   linkTransactionToSubscription(transactionId: string, subscriptionId: string, userId: string): Promise<boolean>;
-  ignoreTransaction(transactionId: string, userId: string): Promise<boolean>;
+  unlinkTransaction(transactionId: string, userId: string): Promise<boolean>;
+  linkTransactionsToSubscription(transactionIds: string[], subscriptionId: string, userId: string): Promise<number>;
+  ignoreTransaction(transactionId: string, userId: string, ignored?: boolean): Promise<boolean>;
+  setRefundOf(transactionId: string, refundOfId: string | null, userId: string): Promise<boolean>;
+  
+  // Price history methods
+  createPriceHistoryEntry(userId: string, entry: InsertPriceHistory): Promise<PriceHistoryEntry>;
+  getPriceHistory(subscriptionId: string, userId: string): Promise<PriceHistoryEntry[]>;
+  getRecentPriceChanges(userId: string, sinceDate: string): Promise<PriceHistoryEntry[]>;
+  
+  // Notification methods
+  getActiveSubscriptionsWithOwners(): Promise<Array<{ subscription: Subscription; user: User }>>;
+  createNotification(userId: string, notification: InsertNotification): Promise<Notification>;
+  findNotification(subscriptionId: string, type: string, dueDate: string): Promise<Notification | undefined>;
+  getNotifications(userId: string, unreadOnly?: boolean): Promise<Notification[]>;
+  markNotificationRead(id: string, userId: string): Promise<boolean>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+  markNotificationEmailed(id: string): Promise<void>;
+  
+  // Calendar feed methods
+  getCalendarToken(userId: string): Promise<CalendarToken | undefined>;
+  getCalendarTokenByToken(token: string): Promise<CalendarToken | undefined>;
+  replaceCalendarToken(userId: string, token: string): Promise<CalendarToken>;
+  revokeCalendarToken(userId: string): Promise<boolean>;
+  touchCalendarToken(id: string): Promise<void>;
+  
+  // Exchange rate methods
+  getExchangeRates(userId: string): Promise<ExchangeRate[]>;
+  upsertExchangeRates(userId: string, rates: InsertExchangeRate[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(id: string, userId: string): Promise<boolean>;
+  
+  // Subscription event methods
+  createSubscriptionEvent(userId: string, event: InsertSubscriptionEvent): Promise<SubscriptionEvent>;
+  getSubscriptionEvents(subscriptionId: string, userId: string): Promise<SubscriptionEvent[]>;
+  
+  // Safebox key methods
+  getSafeboxKey(userId: string): Promise<SafeboxKey | undefined>;
+  createSafeboxKey(userId: string, wrappedKey: string): Promise<SafeboxKey>;
+  getSafeboxKeys(): Promise<SafeboxKey[]>;
+  rewrapSafeboxKey(id: string, wrappedKey: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -50,6 +105,14 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<Pick<InsertUser, "name" | "baseCurrency">>): Promise<User | undefined> {
+    const [updated] = await db.update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return updated;
+  }
+
   // SUBSCRIPTION METHODS
   async getSubscriptions(userId: string): Promise<Subscription[]> {
     return db.select().from(subscriptions).where(eq(subscriptions.userId, userId)).orderBy(desc(subscriptions.createdAt));
@@ -120,21 +183,29 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async getTransactions(userId: string, importJobId?: string): Promise<Transaction[]> {
-    if (importJobId) {
-      return db.select().from(transactions)
-        .where(and(
-          eq(transactions.userId, userId),
-          eq(transactions.importJobId, importJobId)
-        ))
-        .orderBy(desc(transactions.date));
+  async getTransactions(userId: string, filters: TransactionFilters = {}): Promise<Transaction[]> {
+    const conditions: SQL[] = [eq(transactions.userId, userId)];
+    
+    if (filters.importJobId) conditions.push(eq(transactions.importJobId, filters.importJobId));
+    if (filters.subscriptionId) conditions.push(eq(transactions.subscriptionId, filters.subscriptionId));
+    if (filters.linked !== undefined) {
+      conditions.push(filters.linked ? isNotNull(transactions.subscriptionId) : isNull(transactions.subscriptionId));
     }
+    if (filters.ignored !== undefined) conditions.push(eq(transactions.ignored, filters.ignored));
+    if (filters.search) conditions.push(ilike(transactions.description, `%${filters.search}%`));
     
     return db.select().from(transactions)
-      .where(eq(transactions.userId, userId))
+      .where(and(...conditions))
       .orderBy(desc(transactions.date));
   }
 
+  async getTransaction(id: string, userId: string): Promise<Transaction | undefined> {
+    const [transaction] = await db.select().from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+      .limit(1);
+    return transaction;
+  }
+
   async linkTransactionToSubscription(transactionId: string, subscriptionId: string, userId: string): Promise<boolean> {
     const result = await db.update(transactions)
       .set({ subscriptionId })
@@ -142,12 +213,219 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
-  async ignoreTransaction(transactionId: string, userId: string): Promise<boolean> {
+  async linkTransactionsToSubscription(transactionIds: string[], subscriptionId: string, userId: string): Promise<number> {
+    if (transactionIds.length === 0) return 0;
+    
+    const result = await db.update(transactions)
+      .set({ subscriptionId })
+      .where(and(inArray(transactions.id, transactionIds), eq(transactions.userId, userId)));
+    return result.rowCount ?? 0;
+  }
+
+  async unlinkTransaction(transactionId: string, userId: string): Promise<boolean> {
     const result = await db.update(transactions)
-      .set({ ignored: true })
+      .set({ subscriptionId: null })
       .where(and(eq(transactions.id, transactionId), eq(transactions.userId, userId)));
     return result.rowCount ? result.rowCount > 0 : false;
   }
+
+  async ignoreTransaction(transactionId: string, userId: string, ignored = true): Promise<boolean> {
+    const result = await db.update(transactions)
+      .set({ ignored })
+      .where(and(eq(transactions.id, transactionId), eq(transactions.userId, userId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async setRefundOf(transactionId: string, refundOfId: string | null, userId: string): Promise<boolean> {
+    const result = await db.update(transactions)
+      .set({ refundOfId })
+      .where(and(eq(transactions.id, transactionId), eq(transactions.userId, userId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // PRICE HISTORY METHODS
+  async createPriceHistoryEntry(userId: string, entry: InsertPriceHistory): Promise<PriceHistoryEntry> {
+    const [created] = await db.insert(priceHistory).values({
+      ...entry,
+      userId,
+    } as any).returning();
+    return created;
+  }
+
+  async getPriceHistory(subscriptionId: string, userId: string): Promise<PriceHistoryEntry[]> {
+    return db.select().from(priceHistory)
+      .where(and(eq(priceHistory.subscriptionId, subscriptionId), eq(priceHistory.userId, userId)))
+      .orderBy(desc(priceHistory.date));
+  }
+
+  async getRecentPriceChanges(userId: string, sinceDate: string): Promise<PriceHistoryEntry[]> {
+    return db.select().from(priceHistory)
+      .where(and(eq(priceHistory.userId, userId), gte(priceHistory.date, sinceDate)))
+      .orderBy(desc(priceHistory.date));
+  }
+
+  // NOTIFICATION METHODS
+  // Used by the reminder scheduler, which runs across all users
+  async getActiveSubscriptionsWithOwners(): Promise<Array<{ subscription: Subscription; user: User }>> {
+    return db.select({ subscription: subscriptions, user: users })
+      .from(subscriptions)
+      .innerJoin(users, eq(subscriptions.userId, users.id))
+      .where(eq(subscriptions.active, true));
+  }
+
+  async createNotification(userId: string, notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values({
+      ...notification,
+      userId,
+    } as any).returning();
+    return created;
+  }
+
+  async findNotification(subscriptionId: string, type: string, dueDate: string): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications)
+      .where(and(
+        eq(notifications.subscriptionId, subscriptionId),
+        eq(notifications.type, type),
+        eq(notifications.dueDate, dueDate)
+      ))
+      .limit(1);
+    return notification;
+  }
+
+  async getNotifications(userId: string, unreadOnly = false): Promise<Notification[]> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (unreadOnly) conditions.push(isNull(notifications.readAt));
+    return db.select().from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt));
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<boolean> {
+    const result = await db.update(notifications)
+      .set({ readAt: sql`NOW()` } as any)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const result = await db.update(notifications)
+      .set({ readAt: sql`NOW()` } as any)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result.rowCount ?? 0;
+  }
+
+  async markNotificationEmailed(id: string): Promise<void> {
+    await db.update(notifications)
+      .set({ emailedAt: sql`NOW()` } as any)
+      .where(eq(notifications.id, id));
+  }
+
+  // CALENDAR FEED METHODS
+  async getCalendarToken(userId: string): Promise<CalendarToken | undefined> {
+    const [token] = await db.select().from(calendarTokens)
+      .where(eq(calendarTokens.userId, userId))
+      .limit(1);
+    return token;
+  }
+
+  async getCalendarTokenByToken(token: string): Promise<CalendarToken | undefined> {
+    const [found] = await db.select().from(calendarTokens)
+      .where(eq(calendarTokens.token, token))
+      .limit(1);
+    return found;
+  }
+
+  // Creating a new token invalidates the previous feed URL
+  async replaceCalendarToken(userId: string, token: string): Promise<CalendarToken> {
+    const [created] = await db.insert(calendarTokens)
+      .values({ userId, token })
+      .onConflictDoUpdate({
+        target: calendarTokens.userId,
+        set: { token, lastAccessedAt: null, createdAt: sql`NOW()` } as any,
+      })
+      .returning();
+    return created;
+  }
+
+  async revokeCalendarToken(userId: string): Promise<boolean> {
+    const result = await db.delete(calendarTokens)
+      .where(eq(calendarTokens.userId, userId));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async touchCalendarToken(id: string): Promise<void> {
+    await db.update(calendarTokens)
+      .set({ lastAccessedAt: sql`NOW()` } as any)
+      .where(eq(calendarTokens.id, id));
+  }
+
+  // EXCHANGE RATE METHODS
+  async getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+    return db.select().from(exchangeRates)
+      .where(eq(exchangeRates.userId, userId))
+      .orderBy(exchangeRates.currency, desc(exchangeRates.date));
+  }
+
+  // Re-entering a rate for the same currency and date replaces it
+  async upsertExchangeRates(userId: string, rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    if (rates.length === 0) return [];
+    return db.insert(exchangeRates)
+      .values(rates.map(rate => ({ ...rate, userId })))
+      .onConflictDoUpdate({
+        target: [exchangeRates.userId, exchangeRates.currency, exchangeRates.date],
+        set: { rate: sql`excluded.rate`, source: sql`excluded.source` },
+      })
+      .returning();
+  }
+
+  async deleteExchangeRate(id: string, userId: string): Promise<boolean> {
+    const result = await db.delete(exchangeRates)
+      .where(and(eq(exchangeRates.id, id), eq(exchangeRates.userId, userId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // SUBSCRIPTION EVENT METHODS
+  async createSubscriptionEvent(userId: string, event: InsertSubscriptionEvent): Promise<SubscriptionEvent> {
+    const [created] = await db.insert(subscriptionEvents).values({
+      ...event,
+      userId,
+    }).returning();
+    return created;
+  }
+
+  // Oldest first, so the timeline reads top to bottom
+  async getSubscriptionEvents(subscriptionId: string, userId: string): Promise<SubscriptionEvent[]> {
+    return db.select().from(subscriptionEvents)
+      .where(and(eq(subscriptionEvents.subscriptionId, subscriptionId), eq(subscriptionEvents.userId, userId)))
+      .orderBy(subscriptionEvents.createdAt);
+  }
+
+  // SAFEBOX KEY METHODS
+  async getSafeboxKey(userId: string): Promise<SafeboxKey | undefined> {
+    const [key] = await db.select().from(safeboxKeys)
+      .where(eq(safeboxKeys.userId, userId))
+      .limit(1);
+    return key;
+  }
+
+  // A user's key is created once; if two uploads race, the first one wins
+  async createSafeboxKey(userId: string, wrappedKey: string): Promise<SafeboxKey> {
+    await db.insert(safeboxKeys)
+      .values({ userId, wrappedKey })
+      .onConflictDoNothing({ target: safeboxKeys.userId });
+    return (await this.getSafeboxKey(userId))!;
+  }
+
+  // Used by the key rotation command, which runs across all users
+  async getSafeboxKeys(): Promise<SafeboxKey[]> {
+    return db.select().from(safeboxKeys);
+  }
+
+  async rewrapSafeboxKey(id: string, wrappedKey: string): Promise<void> {
+    await db.update(safeboxKeys)
+      .set({ wrappedKey, rotatedAt: sql`NOW()` } as any)
+      .where(eq(safeboxKeys.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,46 @@
+import type { InsertTransaction, Transaction } from "@shared/schema";
+import type { PaymentRecord } from "@shared/payment-history";
+
+// Stored transactions across import jobs. Bank exports overlap (last month's
+// download repeats the end of the month before), so the same booking can be
+// stored once per job. A row is the same booking when date, text, amount and
+// currency match; the same row twice within one file is a real second charge.
+
+type KeyedRow = Pick<InsertTransaction, "date" | "description" | "amount" | "currency">;
+
+export function transactionKey(tx: KeyedRow): string {
+  return `${tx.date}|${tx.description}|${tx.amount}|${tx.currency}`;
+}
+
+// Keep every booking once: the import job that stored it first owns it
+export function dedupeAcrossImports<T extends KeyedRow & Pick<Transaction, "importJobId" | "createdAt">>(txs: T[]): T[] {
+  const owners = new Map<string, T>();
+  for (const tx of txs) {
+    const key = transactionKey(tx);
+    const owner = owners.get(key);
+    if (!owner || tx.createdAt < owner.createdAt) owners.set(key, tx);
+  }
+
+  return txs.filter(tx => owners.get(transactionKey(tx))!.importJobId === tx.importJobId);
+}
+
+// Payment history input for one subscription: its linked transactions plus the
+// refunds of its charges (usually not linked themselves), each booking once
+export function subscriptionPaymentRecords(subscriptionId: string, txs: Transaction[]): PaymentRecord[] {
+  const history = dedupeAcrossImports(txs);
+  const linked = history.filter(tx => tx.subscriptionId === subscriptionId);
+  const chargeIds = new Set(linked.map(tx => tx.id));
+  const refunds = history.filter(tx =>
+    tx.subscriptionId !== subscriptionId && tx.refundOfId && chargeIds.has(tx.refundOfId)
+  );
+
+  return [...linked, ...refunds].map(tx => ({
+    id: tx.id,
+    date: tx.date,
+    amount: tx.amount,
+    currency: tx.currency,
+    description: tx.description,
+    direction: tx.direction,
+    refundOfId: tx.refundOfId,
+  }));
+}
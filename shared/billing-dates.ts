@@ -0,0 +1,162 @@
+// Billing date engine shared by client and server.
+// All dates are plain YYYY-MM-DD strings and computed in UTC so time zones never shift a day.
+
+export const INTERVAL_UNITS = ["day", "week", "month", "year"] as const;
+export type IntervalUnit = typeof INTERVAL_UNITS[number];
+
+export interface IntervalSpec {
+  count: number;
+  unit: IntervalUnit;
+}
+
+// Named intervals as stored on subscriptions
+const NAMED_INTERVALS: Record<string, IntervalSpec> = {
+  weekly: { count: 1, unit: "week" },
+  biweekly: { count: 2, unit: "week" },
+  monthly: { count: 1, unit: "month" },
+  quarterly: { count: 3, unit: "month" },
+  "half-yearly": { count: 6, unit: "month" },
+  yearly: { count: 1, unit: "year" },
+};
+
+export function toIntervalSpec(interval: string | IntervalSpec): IntervalSpec {
+  if (typeof interval !== "string") return interval;
+  return NAMED_INTERVALS[interval] ?? NAMED_INTERVALS.monthly;
+}
+
+// Interval columns of a subscription. `interval` is a named interval or "custom",
+// in which case intervalCount and intervalUnit hold the schedule (e.g. 28 days).
+export interface IntervalFields {
+  interval: string;
+  intervalCount?: number | null;
+  intervalUnit?: string | null;
+}
+
+export function subscriptionInterval(subscription: IntervalFields): IntervalSpec {
+  if (subscription.interval !== "custom") return toIntervalSpec(subscription.interval);
+  const unit = INTERVAL_UNITS.find(u => u === subscription.intervalUnit) ?? "month";
+  return { count: Math.max(1, Math.round(subscription.intervalCount ?? 1)), unit };
+}
+
+// Human readable schedule: "monthly", "every 28 days", "every 2 months"
+export function describeInterval(interval: string | IntervalSpec): string {
+  const { count, unit } = toIntervalSpec(interval);
+  const named = Object.keys(NAMED_INTERVALS).find(name =>
+    NAMED_INTERVALS[name].count === count && NAMED_INTERVALS[name].unit === unit
+  );
+  if (named) return named;
+  return count === 1 ? `every ${unit}` : `every ${count} ${unit}s`;
+}
+
+export function parseDate(date: string): Date {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function todayISO(now: Date = new Date()): string {
+  // Use the local calendar day, not the UTC one
+  const local = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+  return formatDate(local);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+export function addDays(date: string, days: number): string {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+}
+
+// Add calendar months, clamping to the month end (Jan 31 + 1 month = Feb 28/29)
+export function addMonths(date: string, months: number): string {
+  const d = parseDate(date);
+  const target = d.getUTCMonth() + months;
+  const year = d.getUTCFullYear() + Math.floor(target / 12);
+  const month = ((target % 12) + 12) % 12;
+  const day = Math.min(d.getUTCDate(), daysInMonth(year, month));
+  return formatDate(new Date(Date.UTC(year, month, day)));
+}
+
+// The n-th billing date counted from the anchor. Always computed from the anchor so
+// month-end dates never drift (Jan 31 -> Feb 28 -> Mar 31, not Mar 28).
+export function nthBillingDate(anchor: string, interval: string | IntervalSpec, n: number): string {
+  const spec = toIntervalSpec(interval);
+  switch (spec.unit) {
+    case "day":
+      return addDays(anchor, spec.count * n);
+    case "week":
+      return addDays(anchor, spec.count * 7 * n);
+    case "month":
+      return addMonths(anchor, spec.count * n);
+    case "year":
+      return addMonths(anchor, spec.count * 12 * n);
+  }
+}
+
+// Approximate length of one interval in days (for tolerances and estimates only)
+export function intervalLengthDays(interval: string | IntervalSpec): number {
+  const spec = toIntervalSpec(interval);
+  const unitDays = { day: 1, week: 7, month: 365.25 / 12, year: 365.25 }[spec.unit];
+  return spec.count * unitDays;
+}
+
+// Index of the first billing date on or after the reference date
+function firstIndexOnOrAfter(anchor: string, interval: string | IntervalSpec, reference: string): number {
+  if (anchor >= reference) return 0;
+
+  // Jump close to the target, then step forward
+  let n = Math.max(0, Math.floor(
+    (parseDate(reference).getTime() - parseDate(anchor).getTime()) / (intervalLengthDays(interval) * 86400000)
+  ) - 1);
+  while (nthBillingDate(anchor, interval, n) < reference) n++;
+  return n;
+}
+
+// First billing date on or after the reference date
+export function nextBillingDateOnOrAfter(anchor: string, interval: string | IntervalSpec, reference: string): string {
+  return nthBillingDate(anchor, interval, firstIndexOnOrAfter(anchor, interval, reference));
+}
+
+// All billing dates within [from, to]
+export function billingDatesBetween(anchor: string, interval: string | IntervalSpec, from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let n = firstIndexOnOrAfter(anchor, interval, from); ; n++) {
+    const date = nthBillingDate(anchor, interval, n);
+    if (date > to) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+interface RollableSubscription extends IntervalFields {
+  startDate: string;
+  nextPaymentDate: string;
+  active: boolean;
+  status?: string | null;
+  pauseStartDate?: string | null;
+  pauseEndDate?: string | null; // day billing resumes
+}
+
+// Move nextPaymentDate forward to the first billing date from today on, skipping
+// over a pause (see pauses.ts). Inactive subscriptions keep their last date, and
+// so do paused ones without a resume date.
+export function rollNextPaymentDate(subscription: RollableSubscription, today: string = todayISO()): string {
+  const paused = subscription.status === "paused";
+  if (!subscription.active && !paused) return subscription.nextPaymentDate;
+
+  const interval = subscriptionInterval(subscription);
+  const next = subscription.nextPaymentDate >= today
+    ? subscription.nextPaymentDate
+    : nextBillingDateOnOrAfter(subscription.startDate, interval, today);
+
+  const { pauseStartDate, pauseEndDate } = subscription;
+  if (pauseStartDate && next >= pauseStartDate && (!pauseEndDate || next < pauseEndDate)) {
+    return pauseEndDate ? nextBillingDateOnOrAfter(subscription.startDate, interval, pauseEndDate) : subscription.nextPaymentDate;
+  }
+  return next;
+}
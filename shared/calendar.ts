@@ -0,0 +1,210 @@
+import { addDays, describeInterval, parseDate, subscriptionInterval, todayISO } from "./billing-dates";
+import { calculateCancellationDeadline, type ContractTerms } from "./contract-terms";
+import { isTrial, trialConversion, type TrialFields } from "./trials";
+import { skippedBillingDates, type PauseWindow } from "./pauses";
+
+// iCalendar (RFC 5545) export shared by the client download and the server feed.
+// Prices are expected in major units (e.g. euros).
+
+export interface CalendarSubscription extends ContractTerms, TrialFields {
+  id: string;
+  name: string;
+  price: number;
+  currency: string;
+  active: boolean;
+  cancellationDate?: string | null;
+  reminderLeadDays?: number | null;
+  pauseStartDate?: string | null;
+  pauseEndDate?: string | null;
+  pastPauses?: PauseWindow[] | null;
+}
+
+export interface CalendarOptions {
+  name?: string;
+  paymentAlarmDays?: number; // alarm this many days before each charge
+  now?: Date;
+}
+
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+// TEXT values: escape backslashes, semicolons, commas and newlines
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold lines longer than 75 octets; continuation lines start with a single space.
+// Never splits a multi-byte UTF-8 character.
+export function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1; // room for the leading space
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+function icsDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, "");
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+// RRULE matching the billing date engine. Days past the 28th use BYSETPOS=-1 so
+// short months fall back to their last day (Jan 31 -> Feb 28 -> Mar 31) instead
+// of being skipped, which is what a plain BYMONTHDAY would do.
+export function buildRRule(subscription: Pick<CalendarSubscription, "startDate" | "interval" | "intervalCount" | "intervalUnit" | "active" | "status" | "cancellationDate" | "pauseStartDate" | "pauseEndDate">): string {
+  const spec = subscriptionInterval(subscription);
+  const freq = { day: "DAILY", week: "WEEKLY", month: "MONTHLY", year: "YEARLY" }[spec.unit];
+  const parts = [`FREQ=${freq}`];
+  if (spec.count > 1) parts.push(`INTERVAL=${spec.count}`);
+
+  const start = parseDate(subscription.startDate);
+  const day = start.getUTCDate();
+  if ((spec.unit === "month" || spec.unit === "year") && day > 28) {
+    if (spec.unit === "year") parts.push(`BYMONTH=${start.getUTCMonth() + 1}`);
+    const days = [];
+    for (let d = 28; d <= day; d++) days.push(d);
+    parts.push(`BYMONTHDAY=${days.join(",")}`, "BYSETPOS=-1");
+  }
+
+  if (subscription.cancellationDate && (!subscription.active || subscription.status === "pending_cancellation")) {
+    parts.push(`UNTIL=${icsDate(subscription.cancellationDate)}`);
+  } else if (subscription.pauseStartDate && !subscription.pauseEndDate) {
+    // Paused until resumed by hand: no further charges are known
+    parts.push(`UNTIL=${icsDate(addDays(subscription.pauseStartDate, -1))}`);
+  }
+
+  return `RRULE:${parts.join(";")}`;
+}
+
+// Charges skipped by pauses with a resume date
+function exceptionDates(sub: CalendarSubscription): string[] {
+  const skipped = skippedBillingDates(sub);
+  return skipped.length > 0 ? [`EXDATE;VALUE=DATE:${skipped.map(icsDate).join(",")}`] : [];
+}
+
+function alarm(daysBefore: number, description: string): string[] {
+  return [
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(description)}`,
+    `TRIGGER:-P${daysBefore}D`,
+    "END:VALARM",
+  ];
+}
+
+function paymentEvent(sub: CalendarSubscription, stamp: string, alarmDays: number): string[] {
+  const price = `${sub.price.toFixed(2)} ${sub.currency}`;
+  return [
+    "BEGIN:VEVENT",
+    `UID:${sub.id}@subcontrol.app`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(sub.startDate)}`,
+    "DURATION:P1D",
+    buildRRule(sub),
+    ...exceptionDates(sub),
+    `SUMMARY:${escapeText(`Payment: ${sub.name} (${price})`)}`,
+    `DESCRIPTION:${escapeText(`Subscription payment for ${sub.name}: ${price}, billed ${describeInterval(subscriptionInterval(sub))}.`)}`,
+    "TRANSP:TRANSPARENT",
+    "STATUS:CONFIRMED",
+    ...alarm(alarmDays, `${sub.name} will charge ${price}`),
+    "END:VEVENT",
+  ];
+}
+
+function cancellationEvent(sub: CalendarSubscription, stamp: string, today: string): string[] {
+  const { lastCancellationDate, contractEndDate } = calculateCancellationDeadline(sub, today);
+  const leadDays = sub.reminderLeadDays ?? 7;
+  return [
+    "BEGIN:VEVENT",
+    `UID:${sub.id}-cancel-${icsDate(lastCancellationDate)}@subcontrol.app`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(lastCancellationDate)}`,
+    "DURATION:P1D",
+    `SUMMARY:${escapeText(`Last day to cancel ${sub.name}`)}`,
+    `DESCRIPTION:${escapeText(
+      `Notice for ${sub.name} must arrive today (${sub.noticePeriodDays} days notice). Otherwise the contract renews after ${contractEndDate}.`
+    )}`,
+    "TRANSP:TRANSPARENT",
+    "STATUS:CONFIRMED",
+    ...alarm(leadDays, `${leadDays} days left to cancel ${sub.name}`),
+    "END:VEVENT",
+  ];
+}
+
+// Trials only show what happens when they convert into the paid plan
+function trialEndEvent(sub: CalendarSubscription & { trialEndDate: string }, stamp: string): string[] {
+  const leadDays = sub.reminderLeadDays ?? 7;
+  return [
+    "BEGIN:VEVENT",
+    `UID:${sub.id}-trial-${icsDate(sub.trialEndDate)}@subcontrol.app`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(sub.trialEndDate)}`,
+    "DURATION:P1D",
+    `SUMMARY:${escapeText(`Free trial of ${sub.name} ends`)}`,
+    `DESCRIPTION:${escapeText(`${sub.name} turns into a paid plan today. Cancel before today if you do not want to keep it.`)}`,
+    "TRANSP:TRANSPARENT",
+    "STATUS:CONFIRMED",
+    ...alarm(leadDays, `${sub.name} trial ends in ${leadDays} days`),
+    "END:VEVENT",
+  ];
+}
+
+export function buildICSCalendar(subscriptions: CalendarSubscription[], options: CalendarOptions = {}): string {
+  const now = options.now ?? new Date();
+  const stamp = icsTimestamp(now);
+  const today = todayISO(now);
+  const alarmDays = options.paymentAlarmDays ?? 1;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//SubControl//Subscription Manager//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name ?? "SubControl")}`,
+  ];
+
+  subscriptions.forEach(sub => {
+    // Cancelled subscriptions keep their past charges (ended by UNTIL), paused ones
+    // skip the paused period; other inactive ones are left out
+    const cancelled = !sub.active && !!sub.cancellationDate;
+    const paused = sub.status === "paused";
+    if (!sub.active && !cancelled && !paused) return;
+
+    if (isTrial(sub)) {
+      lines.push(...paymentEvent({ ...sub, ...trialConversion(sub, sub.trialEndDate) }, stamp, alarmDays));
+      lines.push(...trialEndEvent(sub, stamp));
+      return;
+    }
+
+    lines.push(...paymentEvent(sub, stamp, alarmDays));
+    if (sub.active && sub.status !== "pending_cancellation") lines.push(...cancellationEvent(sub, stamp, today));
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
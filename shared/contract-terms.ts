@@ -0,0 +1,76 @@
+import { addDays, addMonths, nthBillingDate, subscriptionInterval, todayISO, type IntervalFields } from "./billing-dates";
+
+// Where the notice period has to end:
+// - term_end: at the end of the current (minimum or renewal) term
+// - month_end: at the end of any calendar month once the minimum term is over
+// - anytime: on any day once the minimum term is over
+export const NOTICE_ANCHORS = ["term_end", "month_end", "anytime"] as const;
+export type NoticeAnchor = typeof NOTICE_ANCHORS[number];
+
+export interface ContractTerms extends IntervalFields {
+  startDate: string;
+  noticePeriodDays: number;
+  minimumTermMonths?: number | null;
+  renewalTermMonths?: number | null;
+  noticeAnchor?: string | null;
+}
+
+export interface CancellationDeadline {
+  lastCancellationDate: string; // notice must arrive by this day
+  contractEndDate: string; // last day the contract runs
+}
+
+function endOfMonth(date: string): string {
+  return addDays(addMonths(`${date.slice(0, 7)}-01`, 1), -1);
+}
+
+// Last day of the n-th term (n = 0 is the first/minimum term)
+function termEnd(terms: ContractTerms, n: number): string {
+  const minimum = terms.minimumTermMonths ?? 0;
+  const renewal = terms.renewalTermMonths ?? 0;
+
+  if (minimum === 0 && renewal === 0) {
+    // No contract term: every billing period is a term
+    return addDays(nthBillingDate(terms.startDate, subscriptionInterval(terms), n + 1), -1);
+  }
+
+  const firstTermMonths = minimum || renewal;
+  if (n === 0) return addDays(addMonths(terms.startDate, firstTermMonths), -1);
+
+  if (renewal > 0) {
+    return addDays(addMonths(terms.startDate, firstTermMonths + renewal * n), -1);
+  }
+
+  // Minimum term only: afterwards it renews with the billing interval
+  const minimumEnd = addMonths(terms.startDate, firstTermMonths);
+  return addDays(nthBillingDate(minimumEnd, subscriptionInterval(terms), n), -1);
+}
+
+// Earliest contract end the user can still reach when cancelling today or later,
+// and the last day on which the cancellation has to arrive for it
+export function calculateCancellationDeadline(terms: ContractTerms, today: string = todayISO()): CancellationDeadline {
+  const notice = Math.max(0, terms.noticePeriodDays);
+  const anchor = (terms.noticeAnchor ?? "term_end") as NoticeAnchor;
+  const earliestNoticeEnd = addDays(today, notice);
+
+  let contractEndDate: string;
+
+  if (anchor === "term_end") {
+    let n = 0;
+    contractEndDate = termEnd(terms, n);
+    while (contractEndDate < earliestNoticeEnd && n < 5000) {
+      n++;
+      contractEndDate = termEnd(terms, n);
+    }
+  } else {
+    // After the minimum term the contract can end on any day / month end
+    const minimumEnd = (terms.minimumTermMonths ?? 0) > 0 ? termEnd(terms, 0) : terms.startDate;
+    const earliest = earliestNoticeEnd > minimumEnd ? earliestNoticeEnd : minimumEnd;
+    contractEndDate = anchor === "month_end" ? endOfMonth(earliest) : earliest;
+  }
+
+  return {
+    lastCancellationDate: addDays(contractEndDate, -notice),
+    contractEndDate,
+  };
+}
@@ -0,0 +1,20 @@
+import { toIntervalSpec, type IntervalSpec } from "./billing-dates";
+
+// Cost normalization shared by the dashboard, analytics and server.
+// Amounts are unit-agnostic (the server works in cents, the client in euros).
+
+// How often a subscription charges in one year (weekly = 52, quarterly = 4, ...)
+export function chargesPerYear(interval: string | IntervalSpec): number {
+  const { count, unit } = toIntervalSpec(interval);
+  const perYear = { day: 365.25, week: 52, month: 12, year: 1 }[unit];
+  return perYear / Math.max(1, count);
+}
+
+export function annualCost(price: number, interval: string | IntervalSpec): number {
+  return price * chargesPerYear(interval);
+}
+
+// Average cost per month (weekly is price x 52 / 12, not x 4)
+export function monthlyCost(price: number, interval: string | IntervalSpec): number {
+  return annualCost(price, interval) / 12;
+}
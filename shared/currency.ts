@@ -0,0 +1,106 @@
+// Currency conversion shared by client and server.
+// Rates follow the ECB convention: units of a currency per 1 EUR (EUR itself is always 1).
+
+export interface ExchangeRateEntry {
+  currency: string;
+  rate: number;
+  date: string; // YYYY-MM-DD
+}
+
+export type RateTable = Record<string, number>;
+
+// Newest rate per currency
+export function latestRates(entries: ExchangeRateEntry[]): RateTable {
+  const newest: Record<string, ExchangeRateEntry> = {};
+  entries.forEach(entry => {
+    const current = newest[entry.currency];
+    if (!current || entry.date > current.date) newest[entry.currency] = entry;
+  });
+
+  const table: RateTable = { EUR: 1 };
+  Object.values(newest).forEach(entry => {
+    if (entry.currency !== "EUR") table[entry.currency] = entry.rate;
+  });
+  return table;
+}
+
+// Convert an amount, or null if a rate is missing
+export function convertAmount(amount: number, from: string, to: string, rates: RateTable): number | null {
+  if (from === to) return amount;
+  const fromRate = from === "EUR" ? 1 : rates[from];
+  const toRate = to === "EUR" ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+  return amount / fromRate * toRate;
+}
+
+export interface ConvertedTotal {
+  total: number; // in the target currency
+  unconverted: Record<string, number>; // amounts per currency without a rate
+}
+
+export function sumInCurrency(amounts: Array<{ amount: number; currency: string }>, to: string, rates: RateTable): ConvertedTotal {
+  const result: ConvertedTotal = { total: 0, unconverted: {} };
+  amounts.forEach(({ amount, currency }) => {
+    const converted = convertAmount(amount, currency, to, rates);
+    if (converted === null) {
+      result.unconverted[currency] = (result.unconverted[currency] || 0) + amount;
+    } else {
+      result.total += converted;
+    }
+  });
+  return result;
+}
+
+const MONTHS: Record<string, string> = {
+  january: "01", february: "02", march: "03", april: "04", may: "05", june: "06",
+  july: "07", august: "08", september: "09", october: "10", november: "11", december: "12",
+};
+
+// ECB CSV files use "05 January 2024" (daily) or "2024-01-05" (history)
+function parseECBDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const match = trimmed.match(/^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/);
+  if (!match || !MONTHS[match[2].toLowerCase()]) return null;
+  return `${match[3]}-${MONTHS[match[2].toLowerCase()]}-${match[1].padStart(2, "0")}`;
+}
+
+function parseECBXml(content: string): ExchangeRateEntry[] {
+  const entries: ExchangeRateEntry[] = [];
+  // <Cube time="..."> groups contain <Cube currency="..." rate="..."/> entries
+  const dayPattern = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g;
+  const ratePattern = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+
+  for (const day of Array.from(content.matchAll(dayPattern))) {
+    for (const rate of Array.from(day[2].matchAll(ratePattern))) {
+      entries.push({ currency: rate[1], rate: parseFloat(rate[2]), date: day[1] });
+    }
+  }
+  return entries;
+}
+
+function parseECBCsv(content: string): ExchangeRateEntry[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) return [];
+
+  const header = lines[0].split(",").map(h => h.trim());
+  if (header[0].toLowerCase() !== "date") return [];
+
+  const entries: ExchangeRateEntry[] = [];
+  lines.slice(1).forEach(line => {
+    const cells = line.split(",");
+    const date = parseECBDate(cells[0]);
+    if (!date) return;
+    header.slice(1).forEach((currency, i) => {
+      const rate = parseFloat(cells[i + 1]);
+      // History files use "N/A" for currencies that were not quoted that day
+      if (/^[A-Z]{3}$/.test(currency) && rate > 0) entries.push({ currency, rate, date });
+    });
+  });
+  return entries;
+}
+
+// Parse an ECB reference rate file (eurofxref XML or CSV, daily or history)
+export function parseECBRates(content: string): ExchangeRateEntry[] {
+  return content.trimStart().startsWith("<") ? parseECBXml(content) : parseECBCsv(content);
+}
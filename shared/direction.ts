@@ -0,0 +1,74 @@
+// Money direction of an imported transaction: "debit" = money out (a charge),
+// "credit" = money in (salary, transfers, refunds). Only debits can be subscription
+// payments. Amounts stay unit-agnostic, like in recurrence detection.
+
+export const DIRECTIONS = ["debit", "credit"] as const;
+export type Direction = typeof DIRECTIONS[number];
+
+interface DirectionInput {
+  amount: number;
+  description: string;
+  direction?: Direction | null;
+}
+
+const CREDIT_TEXT = /\b(gutschrift|gehalt|lohn|salary|payroll|refund|erstattung|rückerstattung|storno|rücklastschrift|zinsen|interest)\b/i;
+
+// Banks disagree on signs: most exports show money out as negative, but
+// expense-only exports list every amount as positive. So the sign only decides
+// when the rows have both signs; otherwise credit wording in the text does.
+// Rows that already carry a direction (e.g. from a bank statement parser) keep it.
+export function assignDirections<T extends DirectionInput>(rows: T[]): Array<T & { direction: Direction }> {
+  const signed = rows.some(row => row.amount < 0) && rows.some(row => row.amount > 0);
+
+  return rows.map(row => {
+    if (row.direction) return { ...row, direction: row.direction };
+    if (signed || row.amount < 0) return { ...row, direction: row.amount < 0 ? "debit" : "credit" };
+    return { ...row, direction: CREDIT_TEXT.test(row.description) ? "credit" : "debit" };
+  });
+}
+
+const REFUND_TEXT = /\b(refund|erstattung|rückerstattung|storno|rücklastschrift|gutschrift)\b/gi;
+
+// "Erstattung Netflix" and "Netflix" should land on the same merchant
+export function withoutRefundWording(description: string): string {
+  return description.replace(REFUND_TEXT, " ").replace(/\s+/g, " ").trim();
+}
+
+export interface RefundMatch<T> {
+  refund: T;
+  charge: T;
+}
+
+const REFUND_WINDOW_DAYS = 120;
+
+// Pair each credit with the earlier charge it refunds: same merchant, at most the
+// charged amount, within REFUND_WINDOW_DAYS. An exact amount wins over the most
+// recent charge; every charge is refunded at most once.
+export function matchRefunds<T extends { date: string; amount: number; direction?: string | null }>(
+  txs: T[],
+  merchantOf: (tx: T) => string,
+): RefundMatch<T>[] {
+  const byDate = [...txs].sort((a, b) => a.date.localeCompare(b.date));
+  const refunded = new Set<T>();
+  const matches: RefundMatch<T>[] = [];
+
+  for (const refund of byDate.filter(tx => tx.direction === "credit")) {
+    const merchant = merchantOf(refund);
+    if (!merchant) continue;
+
+    const earliest = new Date(new Date(refund.date).getTime() - REFUND_WINDOW_DAYS * 86400000).toISOString().split("T")[0];
+    const charges = byDate.filter(tx =>
+      tx.direction !== "credit" && !refunded.has(tx) &&
+      tx.date <= refund.date && tx.date >= earliest &&
+      Math.abs(tx.amount) >= Math.abs(refund.amount) &&
+      merchantOf(tx) === merchant
+    );
+    const charge = charges.reverse().find(tx => Math.abs(tx.amount) === Math.abs(refund.amount)) ?? charges[0];
+    if (!charge) continue;
+
+    refunded.add(charge);
+    matches.push({ refund, charge });
+  }
+
+  return matches;
+}
@@ -0,0 +1,101 @@
+import { trialConversion, type TrialFields } from "./trials";
+import { isInPause, pauseWindow } from "./pauses";
+
+// Subscription lifecycle shared by client and server. `status` is the source of
+// truth; `active` is derived from it and means "still running and charging".
+//
+//   trial -> active -> pending_cancellation -> cancelled
+//              |  ^            |
+//              v  |            +-> active (cancellation withdrawn)
+//             paused
+//
+// Any running status can also end as cancelled or expired.
+
+export const SUBSCRIPTION_STATUSES = ["trial", "active", "paused", "pending_cancellation", "cancelled", "expired"] as const;
+export type SubscriptionStatus = typeof SUBSCRIPTION_STATUSES[number];
+
+export const STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  trial: "Trial",
+  active: "Active",
+  paused: "Paused",
+  pending_cancellation: "Cancellation pending",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+// Allowed manual transitions (automatic ones are in automaticTransition)
+const TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  trial: ["active", "pending_cancellation", "cancelled", "expired"],
+  active: ["paused", "pending_cancellation", "cancelled", "expired"],
+  paused: ["active", "pending_cancellation", "cancelled", "expired"],
+  pending_cancellation: ["active", "cancelled", "expired"],
+  cancelled: [],
+  expired: [],
+};
+
+export function isSubscriptionStatus(value: unknown): value is SubscriptionStatus {
+  return typeof value === "string" && (SUBSCRIPTION_STATUSES as readonly string[]).includes(value);
+}
+
+export function nextStatuses(status: string): SubscriptionStatus[] {
+  return isSubscriptionStatus(status) ? TRANSITIONS[status] : [];
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return from === to || nextStatuses(from).includes(to as SubscriptionStatus);
+}
+
+// Statuses in which a subscription still charges
+export function isActiveStatus(status: string): boolean {
+  return status === "trial" || status === "active" || status === "pending_cancellation";
+}
+
+// Status requested by an update. Older clients only send `active`.
+export function requestedStatus(current: string, update: { status?: unknown; active?: unknown }): string {
+  if (typeof update.status === "string") return update.status;
+  if (update.active === false && isActiveStatus(current)) return "cancelled";
+  if (update.active === true && !isActiveStatus(current)) return "active";
+  return current;
+}
+
+interface LifecycleFields extends TrialFields {
+  status: string;
+  active: boolean;
+  cancellationDate?: string | null;
+  pauseStartDate?: string | null;
+  pauseEndDate?: string | null;
+}
+
+export interface AutomaticTransition {
+  changes: Record<string, unknown> & { status: string; active: boolean };
+  note: string;
+}
+
+// Status change that happens by itself on the given day: a trial converts, a
+// pending cancellation takes effect, a scheduled pause starts or ends, or a record
+// from before the state machine (active: false but still "active") is brought in
+// line. Null if nothing changes.
+export function automaticTransition(subscription: LifecycleFields, today: string): AutomaticTransition | null {
+  const conversion = trialConversion(subscription, today);
+  if (conversion) {
+    return { changes: { ...conversion, active: true }, note: "Trial converted into the paid plan" };
+  }
+
+  if (subscription.status === "pending_cancellation" && subscription.cancellationDate && subscription.cancellationDate < today) {
+    return { changes: { status: "cancelled", active: false }, note: "Cancellation took effect" };
+  }
+
+  if (subscription.status === "paused" && subscription.pauseEndDate && subscription.pauseEndDate <= today) {
+    return { changes: { status: "active", active: true }, note: "Pause ended" };
+  }
+
+  if (subscription.status === "active" && isInPause(pauseWindow(subscription), today)) {
+    return { changes: { status: "paused", active: false }, note: "Scheduled pause started" };
+  }
+
+  if (!subscription.active && isActiveStatus(subscription.status)) {
+    return { changes: { status: "cancelled", active: false }, note: "Marked as cancelled (was inactive)" };
+  }
+
+  return null;
+}
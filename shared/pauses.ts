@@ -0,0 +1,63 @@
+import { billingDatesBetween, addDays, subscriptionInterval, type IntervalFields } from "./billing-dates";
+
+// Pausing (gyms, streaming services). A subscription stores its current or most
+// recent pause: pauseStartDate is the first paused day, pauseEndDate the day it
+// resumes (null = paused until resumed by hand). Earlier pauses that a new one
+// replaced are kept in pastPauses. No charges fall inside any of them.
+
+export interface PauseFields extends IntervalFields {
+  startDate: string;
+  status?: string | null;
+  pauseStartDate?: string | null;
+  pauseEndDate?: string | null;
+  pastPauses?: PauseWindow[] | null; // oldest first, each with an end
+}
+
+export interface PauseWindow {
+  start: string;
+  end: string | null; // exclusive
+}
+
+export function pauseWindow(subscription: Pick<PauseFields, "pauseStartDate" | "pauseEndDate">): PauseWindow | null {
+  if (!subscription.pauseStartDate) return null;
+  return { start: subscription.pauseStartDate, end: subscription.pauseEndDate ?? null };
+}
+
+export function isInPause(window: PauseWindow | null, date: string): boolean {
+  return !!window && date >= window.start && (window.end === null || date < window.end);
+}
+
+// The current pause and every earlier one
+export function pauseWindows(subscription: Pick<PauseFields, "pauseStartDate" | "pauseEndDate" | "pastPauses">): PauseWindow[] {
+  const current = pauseWindow(subscription);
+  return [...(subscription.pastPauses ?? []), ...(current ? [current] : [])];
+}
+
+// Billing dates within [from, to] that are not skipped by a pause
+export function chargeDatesBetween(subscription: PauseFields, from: string, to: string): string[] {
+  const windows = pauseWindows(subscription);
+  return billingDatesBetween(subscription.startDate, subscriptionInterval(subscription), from, to)
+    .filter(date => !windows.some(window => isInPause(window, date)));
+}
+
+// Billing dates skipped by pauses that end (for calendar exceptions)
+export function skippedBillingDates(subscription: PauseFields): string[] {
+  const interval = subscriptionInterval(subscription);
+  return pauseWindows(subscription).flatMap(window =>
+    window.end ? billingDatesBetween(subscription.startDate, interval, window.start, addDays(window.end, -1)) : []
+  );
+}
+
+// pastPauses after the pause is changed to one starting on nextStartDate, or null
+// if nothing needs keeping. Only a pause that already began skipped any charges;
+// one still running ends today.
+export function archivePause(
+  subscription: Pick<PauseFields, "pauseStartDate" | "pauseEndDate" | "pastPauses">,
+  nextStartDate: string | null | undefined,
+  today: string
+): PauseWindow[] | null {
+  const current = pauseWindow(subscription);
+  if (!current || nextStartDate === undefined || nextStartDate === current.start || current.start >= today) return null;
+  const end = current.end !== null && current.end < today ? current.end : today;
+  return [...(subscription.pastPauses ?? []), { start: current.start, end }];
+}
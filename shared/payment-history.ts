@@ -0,0 +1,105 @@
+import { addDays, intervalLengthDays, parseDate, subscriptionInterval, todayISO, type IntervalSpec } from "./billing-dates";
+import { chargeDatesBetween, type PauseFields } from "./pauses";
+
+// Compare the charges actually linked to a subscription with its billing interval.
+// Amounts are unit-agnostic (the server works in cents, the client in euros).
+// Credits never count as payments; refunds of linked charges reduce the total paid.
+
+export interface PaymentRecord {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  currency: string;
+  description: string;
+  direction?: string | null; // missing = debit
+  refundOfId?: string | null; // for a refund: the charge it pays back
+}
+
+export interface PaymentHistory {
+  payments: PaymentRecord[]; // charges only
+  refunds: PaymentRecord[]; // credits paying back one of the charges
+  totalPaid: number; // charges minus refunds
+  expectedCount: number;
+  missed: string[]; // expected charge dates without a matching payment
+  lastExpectedMissed: boolean; // the most recent charge that is past its tolerance is missing
+  extra: PaymentRecord[]; // payments that do not match any expected charge date
+}
+
+interface BillingInfo extends PauseFields {
+  cancellationDate?: string | null;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// How far a charge may drift from its expected date and still count as that charge
+// (3 days for weekly, 5 for biweekly, 10 for monthly and longer)
+function toleranceDays(interval: IntervalSpec): number {
+  return Math.min(10, Math.max(3, Math.round(intervalLengthDays(interval) / 3)));
+}
+
+export function buildPaymentHistory(
+  subscription: BillingInfo,
+  payments: PaymentRecord[],
+  today: Date = new Date()
+): PaymentHistory {
+  const sorted = payments
+    .filter(p => p.direction !== "credit")
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const chargeIds = new Set(sorted.map(p => p.id));
+  const refunds = payments
+    .filter(p => p.direction === "credit" && p.refundOfId && chargeIds.has(p.refundOfId))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const totalPaid = sorted.reduce((sum, p) => sum + Math.abs(p.amount), 0)
+    - refunds.reduce((sum, p) => sum + Math.abs(p.amount), 0);
+
+  if (sorted.length === 0) {
+    return { payments: sorted, refunds, totalPaid, expectedCount: 0, missed: [], lastExpectedMissed: false, extra: [] };
+  }
+
+  // Only judge the period we actually have statements for: from the first linked
+  // payment (or the start date, if later) until today or the cancellation date
+  const interval = subscriptionInterval(subscription);
+  const tolerance = toleranceDays(interval);
+  const firstPayment = addDays(sorted[0].date, -tolerance);
+  const windowStart = firstPayment > subscription.startDate ? firstPayment : subscription.startDate;
+  const todayDate = todayISO(today);
+  const end = subscription.cancellationDate && subscription.cancellationDate < todayDate
+    ? subscription.cancellationDate
+    : todayDate;
+
+  // No charge is expected while the subscription is paused
+  const expected = chargeDatesBetween(subscription, windowStart, end);
+
+  // Greedily match each expected date with the closest unused payment within tolerance
+  const toleranceMs = tolerance * DAY_MS;
+  const used = new Set<string>();
+  const missed: string[] = [];
+
+  for (const due of expected) {
+    const dueTime = parseDate(due).getTime();
+    let best: PaymentRecord | undefined;
+    let bestDistance = Infinity;
+    for (const payment of sorted) {
+      if (used.has(payment.id)) continue;
+      const distance = Math.abs(parseDate(payment.date).getTime() - dueTime);
+      if (distance <= toleranceMs && distance < bestDistance) {
+        best = payment;
+        bestDistance = distance;
+      }
+    }
+    if (best) {
+      used.add(best.id);
+    } else {
+      missed.push(due);
+    }
+  }
+
+  const extra = sorted.filter(p => !used.has(p.id));
+
+  // An old gap stays in `missed`, but only a missing latest charge means the
+  // subscription is behind now. A charge still within its tolerance can yet arrive.
+  const lastSettled = expected.filter(due => addDays(due, tolerance) < todayDate).pop();
+  const lastExpectedMissed = lastSettled !== undefined && missed.includes(lastSettled);
+
+  return { payments: sorted, refunds, totalPaid, expectedCount: expected.length, missed, lastExpectedMissed, extra };
+}
@@ -0,0 +1,324 @@
+// Recurrence detection shared by the client importer and the server import pipeline.
+// Amounts are unit-agnostic: the client passes euros, the server passes cents.
+
+import { intervalLengthDays, nthBillingDate, toIntervalSpec, type IntervalSpec } from "./billing-dates";
+import { matchRefunds, withoutRefundWording, type Direction } from "./direction";
+import { sepaKey, sepaReferenceOf, type SepaReference } from "./sepa";
+
+// Minimal transaction shape needed for detection
+export interface RecurrenceTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  currency: string;
+  direction?: Direction | string | null; // missing = debit
+  // SEPA direct debit details; missing ones are looked for in the description
+  creditorName?: string | null;
+  creditorId?: string | null;
+  mandateReference?: string | null;
+}
+
+// Known provider used for merchant matching
+export interface RecurrenceProvider {
+  id: string;
+  name: string;
+  category: string;
+  noticePeriodInfo?: string;
+}
+
+// Existing subscription used for duplicate detection
+export interface RecurrenceExisting {
+  id?: string;
+  name: string;
+  providerId?: string | null;
+  price?: number;
+  creditorId?: string | null;
+  mandateReference?: string | null;
+}
+
+// Subscription fields proposed for a detected pattern
+export interface CandidateSubscription {
+  name: string;
+  price: number;
+  currency: string;
+  interval: string;
+  intervalCount?: number;
+  intervalUnit?: string;
+  providerId?: string;
+  category: string;
+  startDate: string;
+  nextPaymentDate: string;
+  paymentMethod: string;
+  active: boolean;
+  status: string;
+  noticePeriodDays: number;
+  creditorId?: string;
+  mandateReference?: string;
+}
+
+// Subscription candidate with confidence score
+export interface RecurrenceCandidate<T extends RecurrenceTransaction = RecurrenceTransaction> {
+  subscription: CandidateSubscription;
+  confidence: number; // 0-100
+  transactions: T[];
+  interval: "weekly" | "biweekly" | "monthly" | "quarterly" | "half-yearly" | "yearly" | "custom";
+  intervalDays: number;
+  reason: string;
+  existingSubscriptionId?: string;
+}
+
+// Normalize merchant name
+export function normalizeMerchant(description: string, providers: RecurrenceProvider[] = []): string {
+  if (!description) return "";
+
+  // Remove common payment indicators
+  let normalized = description
+    .toLowerCase()
+    .replace(/\d{4,}/g, '') // Remove long numbers (IDs, order numbers)
+    .replace(/[*]/g, '') // Remove asterisks
+    .replace(/\b(paypal|payment|lastschrift|sepa|kartenzahlung)\b/gi, '')
+    .trim();
+
+  // Match known providers
+  for (const provider of providers) {
+    const providerName = provider.name.toLowerCase();
+    if (normalized.includes(providerName)) {
+      return provider.name;
+    }
+  }
+
+  // Extract first meaningful words (usually merchant name)
+  const words = normalized.split(/\s+/).filter(w => w.length > 2);
+  return words.slice(0, 3).join(' ');
+}
+
+// Calculate days between two dates
+function daysBetween(date1: string, date2: string): number {
+  const d1 = new Date(date1);
+  const d2 = new Date(date2);
+  return Math.abs((d2.getTime() - d1.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+// Typical gap in days for each named interval
+const NAMED_GAPS: Array<[RecurrenceCandidate["interval"], number, number]> = [
+  ["weekly", 5, 9],
+  ["biweekly", 12, 16],
+  ["monthly", 25, 35],
+  ["quarterly", 85, 95],
+  ["half-yearly", 175, 190],
+  ["yearly", 350, 380],
+];
+
+// Schedule for gaps that match no named interval: whole months if the gap is
+// close to some (every 2 months), otherwise a plain day count (every 45 days)
+function customInterval(avgGap: number): IntervalSpec {
+  const months = Math.round(avgGap / (365.25 / 12));
+  if (months >= 2 && Math.abs(avgGap - intervalLengthDays({ count: months, unit: "month" })) <= 3) {
+    return { count: months, unit: "month" };
+  }
+  return { count: Math.max(1, Math.round(avgGap)), unit: "day" };
+}
+
+// Detect interval from transaction dates
+function detectInterval(dates: string[]): { interval: RecurrenceCandidate["interval"]; spec: IntervalSpec; intervalDays: number; confidence: number } {
+  if (dates.length < 2) return { interval: "monthly", spec: toIntervalSpec("monthly"), intervalDays: 30, confidence: 0 };
+
+  const sortedDates = [...dates].sort();
+  const gaps: number[] = [];
+
+  for (let i = 1; i < sortedDates.length; i++) {
+    gaps.push(daysBetween(sortedDates[i-1], sortedDates[i]));
+  }
+
+  const avgGap = gaps.reduce((a, b) => a + b, 0) / gaps.length;
+  const variance = gaps.reduce((sum, gap) => sum + Math.pow(gap - avgGap, 2), 0) / gaps.length;
+  const stdDev = Math.sqrt(variance);
+
+  // Calendar months are 28 to 31 days long, so a run of identical gaps of 28 days
+  // or less is a fixed day count (prepaid plans that renew every 28 days)
+  const fixedDays = gaps.length >= 2 && gaps.every(gap => Math.round(gap) === Math.round(gaps[0]));
+  let named = NAMED_GAPS.find(([, min, max]) => avgGap >= min && avgGap <= max)?.[0];
+  if (named === "monthly" && fixedDays && avgGap < 28.5) named = undefined;
+
+  // Confidence based on consistency (lower std dev = higher confidence)
+  const consistency = Math.max(0, 100 - (stdDev / avgGap * 100));
+
+  return {
+    interval: named ?? "custom",
+    spec: named ? toIntervalSpec(named) : customInterval(avgGap),
+    intervalDays: Math.round(avgGap),
+    confidence: Math.round(consistency),
+  };
+}
+
+// Check if amounts are consistent
+function areAmountsConsistent(amounts: number[], tolerance = 0.05): boolean {
+  if (amounts.length < 2) return false;
+
+  const avgAmount = amounts.reduce((a, b) => a + b, 0) / amounts.length;
+  return amounts.every(a => Math.abs(a - avgAmount) / Math.abs(avgAmount) < tolerance);
+}
+
+// Same merchant for refund matching: the SEPA creditor when known (a returned direct
+// debit carries the creditor ID of the original one), the normalized name otherwise
+export function merchantKey(tx: RecurrenceTransaction, providers: RecurrenceProvider[] = []): string {
+  return sepaKey({ creditorId: sepaReferenceOf(tx).creditorId })
+    ?? normalizeMerchant(withoutRefundWording(tx.description), providers).toLowerCase();
+}
+
+// A subscription and a direct debit belong together when the creditor matches and
+// the mandates do not contradict each other
+export function sameMandate(sub: { creditorId?: string | null; mandateReference?: string | null }, reference: SepaReference): boolean {
+  if (!sub.creditorId || sub.creditorId !== reference.creditorId) return false;
+  return !sub.mandateReference || !reference.mandateReference || sub.mandateReference === reference.mandateReference;
+}
+
+// Only charges can be subscription payments, and a charge refunded in full was no payment either
+function chargesOnly<T extends RecurrenceTransaction>(transactions: T[], providers: RecurrenceProvider[]): T[] {
+  const refunded = new Set(
+    matchRefunds(transactions, tx => merchantKey(tx, providers))
+      .filter(match => Math.abs(match.refund.amount) === Math.abs(match.charge.amount))
+      .map(match => match.charge)
+  );
+  return transactions.filter(tx => tx.direction !== "credit" && !refunded.has(tx));
+}
+
+// Group by direct debit contract (SEPA creditor ID + mandate) where known, by
+// normalized merchant otherwise. Rows without SEPA details join the contract of
+// their merchant when it has exactly one, so a CSV export without creditor IDs
+// still lines up with a CAMT or MT940 import of the same account.
+function groupByContract<T extends RecurrenceTransaction>(transactions: T[], providers: RecurrenceProvider[]): Record<string, T[]> {
+  const keyed = transactions.map(tx => ({
+    tx,
+    merchant: normalizeMerchant(tx.description, providers),
+    contract: sepaKey(sepaReferenceOf(tx)),
+  }));
+
+  const contractsByMerchant = new Map<string, Set<string>>();
+  keyed.forEach(({ merchant, contract }) => {
+    if (!merchant || !contract) return;
+    if (!contractsByMerchant.has(merchant)) contractsByMerchant.set(merchant, new Set());
+    contractsByMerchant.get(merchant)!.add(contract);
+  });
+
+  const groups: Record<string, T[]> = {};
+  keyed.forEach(({ tx, merchant, contract }) => {
+    const contracts = contractsByMerchant.get(merchant);
+    const key = contract ?? (contracts?.size === 1 ? Array.from(contracts)[0] : merchant);
+    if (!key) return;
+
+    if (!groups[key]) groups[key] = [];
+    groups[key].push(tx);
+  });
+
+  return groups;
+}
+
+// Display name of a group: the creditor name when the bank gives one, else the
+// merchant most of its descriptions normalize to
+function groupMerchant(txs: RecurrenceTransaction[], providers: RecurrenceProvider[]): string {
+  const counts = new Map<string, number>();
+  txs.forEach(tx => {
+    const merchant = normalizeMerchant(tx.creditorName || tx.description, providers);
+    if (merchant) counts.set(merchant, (counts.get(merchant) ?? 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+}
+
+// Main analysis function
+export function detectRecurringPayments<T extends RecurrenceTransaction>(
+  transactions: T[],
+  providers: RecurrenceProvider[] = [],
+  existingSubscriptions: RecurrenceExisting[] = []
+): RecurrenceCandidate<T>[] {
+  const candidates: RecurrenceCandidate<T>[] = [];
+  const groups = groupByContract(chargesOnly(transactions, providers), providers);
+
+  // Analyze each group
+  Object.values(groups).forEach(txs => {
+    // Need at least 2 transactions to establish a pattern
+    if (txs.length < 2) return;
+
+    const merchant = groupMerchant(txs, providers);
+    if (!merchant) return;
+
+    // Sort by date
+    txs.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    const amounts = txs.map(t => Math.abs(t.amount));
+    const dates = txs.map(t => t.date);
+
+    // Check amount consistency
+    if (!areAmountsConsistent(amounts, 0.1)) return;
+
+    const avgAmount = amounts.reduce((a, b) => a + b, 0) / amounts.length;
+    const { interval, spec, intervalDays, confidence: intervalConfidence } = detectInterval(dates);
+
+    // Overall confidence
+    const amountVariance = Math.max(...amounts) - Math.min(...amounts);
+    const amountConsistency = 100 - (amountVariance / avgAmount * 100);
+    const transactionFrequency = Math.min(100, txs.length * 20); // More transactions = higher confidence
+
+    const confidence = Math.round(
+      (intervalConfidence * 0.4 + amountConsistency * 0.3 + transactionFrequency * 0.3)
+    );
+
+    // Skip low confidence matches
+    if (confidence < 40) return;
+
+    // Match with known providers
+    const providerMatch = providers.find(p =>
+      merchant.toLowerCase().includes(p.name.toLowerCase())
+    );
+
+    // Latest SEPA details of the group, carried over to the subscription
+    const sepa = [...txs].reverse().map(sepaReferenceOf).find(reference => reference.creditorId);
+
+    // Check for duplicates in existing subscriptions (same mandate first, then by name)
+    const duplicate = (sepa && existingSubscriptions.find(sub => sameMandate(sub, sepa))) ||
+      existingSubscriptions.find(sub =>
+        normalizeMerchant(sub.name, providers).toLowerCase() === merchant.toLowerCase() ||
+        (sub.providerId && sub.providerId === providerMatch?.id)
+      );
+
+    let reason = `${txs.length} transactions detected`;
+    if (duplicate) {
+      const priceChanged = duplicate.price !== undefined &&
+        Math.abs(avgAmount - duplicate.price) / Math.max(duplicate.price, 1) > 0.01;
+      reason = priceChanged
+        ? `Existing subscription - price change detected`
+        : `Existing subscription - already tracked`;
+    }
+
+    // Calculate next payment date
+    const nextPayment = nthBillingDate(dates[dates.length - 1], spec, 1);
+
+    candidates.push({
+      subscription: {
+        name: providerMatch ? providerMatch.name : merchant.charAt(0).toUpperCase() + merchant.slice(1),
+        price: avgAmount,
+        currency: txs[0].currency || "EUR",
+        interval,
+        ...(interval === "custom" && { intervalCount: spec.count, intervalUnit: spec.unit }),
+        providerId: providerMatch?.id,
+        category: providerMatch?.category || "Other",
+        startDate: dates[0],
+        nextPaymentDate: nextPayment,
+        paymentMethod: "Bank Transfer",
+        active: true,
+        status: "active",
+        noticePeriodDays: providerMatch?.noticePeriodInfo ? 30 : 14,
+        ...(sepa && { creditorId: sepa.creditorId, mandateReference: sepa.mandateReference }),
+      },
+      confidence,
+      transactions: txs,
+      interval,
+      intervalDays,
+      reason,
+      existingSubscriptionId: duplicate?.id,
+    });
+  });
+
+  // Sort by confidence (highest first)
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, decimal, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { PauseWindow } from "./pauses";
 
 // USERS TABLE
 export const users = pgTable("users", {
@@ -9,6 +10,7 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   name: text("name").notNull(),
   password: text("password").notNull(),
+  baseCurrency: text("base_currency").notNull().default("EUR"), // totals are converted into this currency
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -20,6 +22,24 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Safebox entry on a subscription. Uploaded files are kept in the blob store
+// under storageKey; entries without one only hold metadata.
+export type SubscriptionDocument = {
+  id: string;
+  name: string;
+  type: string; // contract, confirmation, invoice, other
+  date: string;
+  notes?: string;
+  status: string;
+  amount?: number; // cents, e.g. an invoice total
+  currency?: string;
+  storageKey?: string;
+  mimeType?: string;
+  size?: number; // bytes
+  uploadedAt?: string;
+  encrypted?: boolean; // file is AES-GCM encrypted with the owner's data key
+};
+
 // SUBSCRIPTIONS TABLE
 export const subscriptions = pgTable("subscriptions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -29,28 +49,42 @@ export const subscriptions = pgTable("subscriptions", {
   providerId: text("provider_id"),
   price: integer("price").notNull(), // Store as cents to avoid floating point issues
   currency: text("currency").notNull().default("EUR"),
-  interval: text("interval").notNull().default("monthly"),
+  interval: text("interval").notNull().default("monthly"), // named interval, or "custom"
+  intervalCount: integer("interval_count").notNull().default(1), // custom interval: every N units
+  intervalUnit: text("interval_unit").notNull().default("month"), // custom interval: day, week, month, year
   
   startDate: text("start_date").notNull(),
   nextPaymentDate: text("next_payment_date").notNull(),
   noticePeriodDays: integer("notice_period_days").notNull().default(30),
   
+  // Contract terms (German-style minimum term + automatic renewal)
+  minimumTermMonths: integer("minimum_term_months").notNull().default(0), // 0 = no minimum term
+  renewalTermMonths: integer("renewal_term_months"), // null = renews with the billing interval
+  noticeAnchor: text("notice_anchor").notNull().default("term_end"), // term_end, month_end, anytime
+  reminderLeadDays: integer("reminder_lead_days").notNull().default(7), // remind this many days before the cancellation deadline
+  
   paymentMethod: text("payment_method").notNull().default("Other"),
   category: text("category").notNull().default("Other"),
   notes: text("notes"),
   
+  // SEPA direct debit the subscription is paid by (matches imported transactions)
+  creditorId: text("creditor_id"), // creditor identifier, e.g. DE98ZZZ09999999999
+  mandateReference: text("mandate_reference"),
+  
   active: boolean("active").notNull().default(true),
-  status: text("status").notNull().default("active"),
+  status: text("status").notNull().default("active"), // trial, active, paused, cancelled, pending_cancellation, expired
   cancellationDate: text("cancellation_date"),
   
-  documents: jsonb("documents").$type<Array<{
-    id: string;
-    name: string;
-    type: string;
-    date: string;
-    notes?: string;
-    status: string;
-  }>>().default([]),
+  // Current or most recent pause (status "paused" while it runs)
+  pauseStartDate: text("pause_start_date"), // first paused day
+  pauseEndDate: text("pause_end_date"), // day billing resumes, null = until resumed by hand
+  pastPauses: jsonb("past_pauses").$type<PauseWindow[]>().default([]), // earlier pauses a new one replaced
+  
+  // Free trial (status "trial"): converts into the paid plan on trialEndDate
+  trialEndDate: text("trial_end_date"),
+  priceAfterTrial: integer("price_after_trial"), // cents, null = same as price
+  
+  documents: jsonb("documents").$type<SubscriptionDocument[]>().default([]),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -82,6 +116,8 @@ export const importJobs = pgTable("import_jobs", {
     description?: string;
     amount?: string;
     currency?: string;
+    creditorId?: string;
+    mandateReference?: string;
   }>(),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -106,6 +142,10 @@ export const transactions = pgTable("transactions", {
   description: text("description").notNull(),
   amount: integer("amount").notNull(), // cents
   currency: text("currency").notNull().default("EUR"),
+  direction: text("direction").notNull().default("debit"), // debit (money out), credit (money in)
+  refundOfId: varchar("refund_of_id"), // for a refund: the earlier charge it pays back
+  creditorId: text("creditor_id"), // SEPA direct debits only
+  mandateReference: text("mandate_reference"),
   
   normalizedMerchant: text("normalized_merchant"),
   subscriptionId: varchar("subscription_id").references(() => subscriptions.id, { onDelete: "set null" }),
@@ -125,3 +165,130 @@ export const insertTransactionSchema = createInsertSchema(transactions).omit({
 
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
+
+// PRICE HISTORY TABLE - Dated price changes per subscription
+export const priceHistory = pgTable("price_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  subscriptionId: varchar("subscription_id").notNull().references(() => subscriptions.id, { onDelete: "cascade" }),
+  
+  date: text("date").notNull(), // first charge (or edit) at the new price
+  oldPrice: integer("old_price").notNull(), // cents
+  newPrice: integer("new_price").notNull(), // cents
+  currency: text("currency").notNull().default("EUR"),
+  source: text("source").notNull().default("import"), // import, manual
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPriceHistorySchema = createInsertSchema(priceHistory).omit({ 
+  id: true, 
+  userId: true, 
+  createdAt: true 
+});
+
+export type InsertPriceHistory = z.infer<typeof insertPriceHistorySchema>;
+export type PriceHistoryEntry = typeof priceHistory.$inferSelect;
+
+// NOTIFICATIONS TABLE - In-app notifications (also delivered by email)
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  subscriptionId: varchar("subscription_id").references(() => subscriptions.id, { onDelete: "cascade" }),
+  
+  type: text("type").notNull(), // cancellation_deadline, trial_ending
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  dueDate: text("due_date"), // the date the notification is about (e.g. last day to cancel)
+  
+  readAt: timestamp("read_at"),
+  emailedAt: timestamp("emailed_at"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({ 
+  id: true, 
+  userId: true, 
+  createdAt: true 
+});
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+// CALENDAR TOKENS TABLE - Secret token for the subscribable ICS feed (one per user)
+export const calendarTokens = pgTable("calendar_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  
+  token: text("token").notNull().unique(),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CalendarToken = typeof calendarTokens.$inferSelect;
+
+// EXCHANGE RATES TABLE - ECB-style rates (units of currency per 1 EUR), entered by hand or imported
+export const exchangeRates = pgTable("exchange_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  
+  currency: text("currency").notNull(),
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+  date: text("date").notNull(), // date the rate applies to
+  source: text("source").notNull().default("manual"), // manual, ecb
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.currency, table.date),
+]);
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates, {
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code"),
+  rate: z.coerce.number().positive().transform(String),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+}).omit({ 
+  id: true, 
+  userId: true, 
+  createdAt: true 
+});
+
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
+// SUBSCRIPTION EVENTS TABLE - Status timeline (see shared/lifecycle.ts)
+export const subscriptionEvents = pgTable("subscription_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  subscriptionId: varchar("subscription_id").notNull().references(() => subscriptions.id, { onDelete: "cascade" }),
+  
+  fromStatus: text("from_status"), // null when the subscription was created
+  toStatus: text("to_status").notNull(),
+  source: text("source").notNull().default("user"), // user, system
+  note: text("note"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSubscriptionEventSchema = createInsertSchema(subscriptionEvents).omit({ 
+  id: true, 
+  userId: true, 
+  createdAt: true 
+});
+
+export type InsertSubscriptionEvent = z.infer<typeof insertSubscriptionEventSchema>;
+export type SubscriptionEvent = typeof subscriptionEvents.$inferSelect;
+
+// SAFEBOX KEYS TABLE - Per-user data key for Safebox files, wrapped by the server master key
+export const safeboxKeys = pgTable("safebox_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  
+  wrappedKey: text("wrapped_key").notNull(), // see server/safebox-crypto.ts
+  rotatedAt: timestamp("rotated_at"), // last re-wrap under a new master key
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SafeboxKey = typeof safeboxKeys.$inferSelect;
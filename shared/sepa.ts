@@ -0,0 +1,61 @@
+// SEPA direct debit references. Every direct debit carries the creditor
+// identifier of the company collecting it (e.g. DE98ZZZ09999999999) and the
+// mandate reference of the contract. Both stay the same across months, while
+// the booking text ("NETFLIX AMSTERDAM", "Netflix International B.V.") does not.
+
+export interface SepaReference {
+  creditorId?: string;
+  mandateReference?: string;
+}
+
+// Country, check digits, business code, national ID: DE98ZZZ09999999999
+const CREDITOR_ID = /^[A-Z]{2}\d{2}[A-Z0-9]{3}[A-Z0-9]{1,28}$/;
+
+// Labelled values as banks print them in CSV and PDF booking texts:
+// "CRED+DE98ZZZ09999999999", "Gläubiger-ID: DE98...", "Mandatsreferenz: M-123"
+const CREDITOR_LABEL = /(?:\bCRED\+|\b(?:gl(?:ä|ae|a)ubiger[\s-]*(?:id|identifikation(?:snummer)?)|creditor[\s-]*id(?:entifier)?|CI)\b[.:]?)\s*([A-Z0-9]{8,35})/i;
+const MANDATE_LABEL = /(?:\bMREF\+|\b(?:mandatsref(?:erenz)?|mandate[\s-]*ref(?:erence)?|mandat)\b[.:]?)\s*([A-Za-z0-9+?/:().,'-]{1,35})/i;
+
+// A bare creditor ID with the common "ZZZ" business code, for texts without labels
+const BARE_CREDITOR_ID = /\b[A-Z]{2}\d{2}ZZZ[A-Z0-9]{8,28}\b/;
+
+export function normalizeCreditorId(value: string | null | undefined): string | undefined {
+  const compact = value?.replace(/\s+/g, "").toUpperCase();
+  return compact && CREDITOR_ID.test(compact) ? compact : undefined;
+}
+
+export function normalizeMandateReference(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  // "NOTPROVIDED" is what banks send for payments without a mandate
+  return trimmed && trimmed.toUpperCase() !== "NOTPROVIDED" ? trimmed : undefined;
+}
+
+// Pull creditor ID and mandate reference out of a free-text booking description
+export function extractSepaReference(description: string): SepaReference {
+  const creditorId = normalizeCreditorId(description.match(CREDITOR_LABEL)?.[1])
+    ?? normalizeCreditorId(description.match(BARE_CREDITOR_ID)?.[0]);
+  const mandateReference = normalizeMandateReference(description.match(MANDATE_LABEL)?.[1]);
+  return { creditorId, mandateReference };
+}
+
+// Structured fields win; the description fills the gaps
+export function sepaReferenceOf(tx: {
+  description: string;
+  creditorId?: string | null;
+  mandateReference?: string | null;
+}): SepaReference {
+  const fromText = extractSepaReference(tx.description);
+  return {
+    creditorId: normalizeCreditorId(tx.creditorId) ?? fromText.creditorId,
+    mandateReference: normalizeMandateReference(tx.mandateReference) ?? fromText.mandateReference,
+  };
+}
+
+// Grouping key for one direct debit contract: the creditor, plus the mandate when
+// known (two phone lines with the same carrier are two contracts)
+export function sepaKey(reference: SepaReference): string | undefined {
+  if (!reference.creditorId) return undefined;
+  return reference.mandateReference
+    ? `sepa:${reference.creditorId}/${reference.mandateReference}`
+    : `sepa:${reference.creditorId}`;
+}
@@ -0,0 +1,41 @@
+// Free trials shared by client and server. A subscription with status "trial"
+// runs at its (usually zero) trial price until trialEndDate, the day it
+// converts into the paid plan at priceAfterTrial.
+// Amounts are unit-agnostic (the server works in cents, the client in euros).
+
+export interface TrialFields {
+  status?: string | null;
+  price: number;
+  trialEndDate?: string | null;
+  priceAfterTrial?: number | null;
+}
+
+export function isTrial<T extends TrialFields>(subscription: T): subscription is T & { trialEndDate: string } {
+  return subscription.status === "trial" && !!subscription.trialEndDate;
+}
+
+// What the subscription costs once it is (or becomes) a paid plan
+export function paidPrice(subscription: TrialFields): number {
+  if (!isTrial(subscription)) return subscription.price;
+  return subscription.priceAfterTrial ?? subscription.price;
+}
+
+// Changes that turn a trial into the paid plan once its end date is reached, or
+// null if nothing changes. The paid contract (billing schedule and minimum term)
+// starts on the conversion day.
+export function trialConversion(subscription: TrialFields, today: string): {
+  status: "active";
+  price: number;
+  priceAfterTrial: null;
+  startDate: string;
+  nextPaymentDate: string;
+} | null {
+  if (!isTrial(subscription) || subscription.trialEndDate > today) return null;
+  return {
+    status: "active",
+    price: paidPrice(subscription),
+    priceAfterTrial: null,
+    startDate: subscription.trialEndDate,
+    nextPaymentDate: subscription.trialEndDate,
+  };
+}